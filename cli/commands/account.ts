@@ -0,0 +1,188 @@
+import { Command } from "commander";
+import inquirer from "inquirer";
+import { npubEncode } from "nostr-tools/nip19";
+import {
+  getConfigSources,
+  loadConfig,
+  saveConfig,
+} from "../../helpers/config.js";
+import {
+  addAccount,
+  getAccounts,
+  removeAccount,
+} from "../../helpers/signer.js";
+import type { BaseCommand } from "../types.js";
+
+export class AccountCommand implements BaseCommand {
+  name = "account";
+  description = "Manage named accounts for signing as different identities";
+
+  setup(program: Command): void {
+    const command = program
+      .command(this.name)
+      .description(this.description)
+      .action(async () => {
+        await this.run(() => this.list());
+      });
+
+    command
+      .command("list")
+      .description("List the accounts stored in the keyring")
+      .action(async () => {
+        await this.run(() => this.list());
+      });
+
+    command
+      .command("add")
+      .description("Store an account in the keyring")
+      .argument("<name>", "Name of the account, e.g. team-bot")
+      .argument(
+        "[signer]",
+        "nsec or nbunksec to sign with (prompted for when missing)",
+      )
+      .option("--use", "Switch to the account after adding it")
+      .action(async (name: string, signer: string | undefined, options) => {
+        await this.run(() => this.add(name, signer, options));
+      });
+
+    command
+      .command("use")
+      .description("Switch to an account, or back to the default signer")
+      .argument("[name]", "Name of the account, omit to use the default signer")
+      .action(async (name: string | undefined) => {
+        await this.run(() => this.use(name));
+      });
+
+    command
+      .command("remove")
+      .description("Remove an account from the keyring")
+      .argument("<name>", "Name of the account")
+      .action(async (name: string) => {
+        await this.run(() => this.remove(name));
+      });
+  }
+
+  /**
+   * Run a subcommand and exit with an error message if it fails
+   */
+  private async run(action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      console.error(
+        "❌ Account command failed:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+
+  private async list(): Promise<void> {
+    const accounts = await getAccounts();
+    const active = loadConfig().account;
+
+    if (accounts.length === 0) {
+      console.log("📭 No accounts stored");
+      console.log(
+        "\n💡 Add one with: nostr-code-snippets account add <name> <nsec_or_nbunksec>",
+      );
+      return;
+    }
+
+    console.log(`\n👥 ${accounts.length} accounts`);
+    console.log("─".repeat(50));
+    for (const account of accounts) {
+      const marker = account.name === active ? "▶" : " ";
+      console.log(`${marker} ${account.name}`);
+      console.log(`   🔗 ${npubEncode(account.pubkey)}`);
+    }
+
+    const source = getConfigSources().account;
+    if (active && source)
+      console.log(`\n▶ Active account from ${source.location}`);
+    else if (!active)
+      console.log(
+        "\n💡 Using the default signer, switch with: account use <name>",
+      );
+  }
+
+  private async add(
+    name: string,
+    signerValue: string | undefined,
+    options: any,
+  ): Promise<void> {
+    if (!signerValue) {
+      if (!process.stdin.isTTY)
+        throw new Error("Pass the nsec or nbunksec as an argument");
+
+      const { value } = await inquirer.prompt([
+        {
+          type: "password",
+          name: "value",
+          message: `nsec or nbunksec for ${name}:`,
+          validate: (input: string) =>
+            input.trim().length > 0 || "A signer is required",
+        },
+      ]);
+      signerValue = value as string;
+    }
+
+    const account = await addAccount(name, signerValue.trim());
+    console.log(`✅ Added account: ${account.name}`);
+    console.log(`   🔗 ${npubEncode(account.pubkey)}`);
+
+    if (options.use) await this.use(name);
+  }
+
+  private async use(name: string | undefined): Promise<void> {
+    if (name) {
+      const accounts = await getAccounts();
+      if (!accounts.some((account) => account.name === name))
+        throw new Error(
+          `Unknown account: ${name}. Add it with: nostr-code-snippets account add ${name}`,
+        );
+    }
+
+    const config = loadConfig();
+    config.account = name;
+    saveConfig(config);
+    if (this.checkActiveAccount(name))
+      console.log(
+        name
+          ? `✅ Now signing as: ${name}`
+          : "✅ Now signing with the default signer",
+      );
+  }
+
+  /**
+   * Check the account in use after saving the config, another config file, an
+   * environment variable or --account can still set a different one
+   */
+  private checkActiveAccount(expected: string | undefined): boolean {
+    const active = loadConfig().account;
+    if (active === expected) return true;
+
+    const source = getConfigSources().account;
+    console.log(
+      `⚠️  Still signing as ${active}, the account is set in ${source?.location}`,
+    );
+    if (source?.source === "global" || source?.source === "project")
+      console.log(`   Remove "account" from that file to change it`);
+    return false;
+  }
+
+  private async remove(name: string): Promise<void> {
+    if (!(await removeAccount(name)))
+      throw new Error(`Unknown account: ${name}`);
+
+    console.log(`🗑️  Removed account: ${name}`);
+
+    const config = loadConfig();
+    if (config.account === name) {
+      config.account = undefined;
+      saveConfig(config);
+      if (this.checkActiveAccount(undefined))
+        console.log("   Switched back to the default signer");
+    }
+  }
+}
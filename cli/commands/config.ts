@@ -1,9 +1,18 @@
-import { normalizeToPubkey } from "applesauce-core/helpers";
+import { normalizeToPubkey, normalizeURL } from "applesauce-core/helpers";
 import { Command } from "commander";
 import inquirer from "inquirer";
 import { nip19 } from "nostr-tools";
+import { CONFIG_VERSION, checkConfig } from "../../helpers/config-schema.js";
 import {
+  checkConfigFile,
+  getConfigFiles,
+  getConfigLayers,
+  getConfigPath,
+  getConfigSources,
+  getOverrideLayers,
+  getRelayProfile,
   loadConfig,
+  migrateConfigFile,
   saveConfig,
   type NostrConfig,
 } from "../../helpers/config.js";
@@ -14,6 +23,7 @@ import {
   isNpub,
   resolveNip05,
 } from "../../helpers/nip05.js";
+import { describeSignerStorage, hasSigner } from "../../helpers/signer.js";
 import type { BaseCommand } from "../types.js";
 
 export class ConfigCommand implements BaseCommand {
@@ -21,7 +31,7 @@ export class ConfigCommand implements BaseCommand {
   description = "Configure Nostr settings";
 
   setup(program: Command): void {
-    program
+    const command = program
       .command(this.name)
       .description(this.description)
       .option(
@@ -31,11 +41,127 @@ export class ConfigCommand implements BaseCommand {
       .option("--editor <editor>", "Set editor command")
       .option("--add-relay <url>", "Add a relay URL")
       .option("--remove-relay <url>", "Remove a relay URL")
+      .option(
+        "--enable-auth <url>",
+        "Answer NIP-42 AUTH challenges from a relay with your signer",
+      )
+      .option("--disable-auth <url>", "Stop authenticating with a relay")
       .option("--reset", "Reset configuration to defaults")
       .option("--show", "Show current configuration")
       .action(async (options) => {
         await this.execute(options);
       });
+
+    command
+      .command("validate")
+      .description("Check the config files for problems without changing them")
+      .action(() => {
+        this.validate();
+      });
+
+    command
+      .command("migrate")
+      .description("Upgrade the config files to the current version")
+      .action(() => {
+        this.migrate();
+      });
+  }
+
+  /**
+   * Report problems in the config files and environment variables
+   */
+  validate(): void {
+    let problems = 0;
+    let outdated = 0;
+
+    console.log("\n🔍 Validating configuration");
+    console.log("─".repeat(40));
+
+    for (const file of getConfigFiles()) {
+      const check = checkConfigFile(file.path);
+      if (!check) {
+        console.log(`⚪ ${file.source}: ${file.path} (not found)`);
+        continue;
+      }
+
+      if (check.issues.length > 0) {
+        problems += check.issues.length;
+        console.log(`❌ ${file.source}: ${file.path}`);
+        check.issues.forEach((issue) => console.log(`   • ${issue}`));
+      } else if (check.version < CONFIG_VERSION) {
+        console.log(
+          `⬆️  ${file.source}: ${file.path} (version ${check.version}, needs migration to version ${CONFIG_VERSION})`,
+        );
+        outdated++;
+      } else {
+        console.log(`✅ ${file.source}: ${file.path}`);
+      }
+    }
+
+    for (const layer of getOverrideLayers()) {
+      const { issues } = checkConfig(layer.config);
+      if (issues.length === 0) continue;
+
+      problems += issues.length;
+      console.log(`❌ ${layer.location}`);
+      issues.forEach((issue) => console.log(`   • ${issue}`));
+    }
+
+    // A selected profile can only be checked once every file is valid
+    if (problems === 0) {
+      try {
+        getRelayProfile(loadConfig());
+      } catch (error) {
+        problems++;
+        console.log(
+          `❌ profile: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    if (problems > 0) {
+      console.log(`\n❌ Found ${problems} problems`);
+      process.exit(1);
+    }
+
+    console.log("\n✅ Configuration is valid");
+    if (outdated > 0)
+      console.log(
+        "💡 Upgrade the outdated files with: nostr-code-snippets config migrate",
+      );
+  }
+
+  /**
+   * Write the config files migrated to the current version
+   */
+  migrate(): void {
+    let problems = 0;
+
+    for (const file of getConfigFiles()) {
+      try {
+        const check = migrateConfigFile(file.path);
+        if (!check) continue;
+
+        if (!check.config) {
+          problems++;
+          console.log(`❌ ${file.source}: ${file.path} has problems`);
+          check.issues.forEach((issue) => console.log(`   • ${issue}`));
+        } else if (check.version < CONFIG_VERSION) {
+          console.log(
+            `⬆️  ${file.source}: ${file.path} migrated from version ${check.version} to ${CONFIG_VERSION}`,
+          );
+        } else {
+          console.log(`✅ ${file.source}: ${file.path} is up to date`);
+        }
+      } catch (error) {
+        problems++;
+        console.log(
+          `❌ ${file.source}: Failed to write ${file.path}: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    }
+
+    if (problems > 0) process.exit(1);
   }
 
   async execute(options?: any): Promise<void> {
@@ -49,7 +175,7 @@ export class ConfigCommand implements BaseCommand {
       // Handle command line options
       if (options.show) {
         const config = loadConfig();
-        this.showConfig(config);
+        await this.showConfig(config);
         return;
       }
 
@@ -63,16 +189,22 @@ export class ConfigCommand implements BaseCommand {
       if (options.addRelay) await this.addRelayFromCli(options.addRelay);
       if (options.removeRelay)
         await this.removeRelayFromCli(options.removeRelay);
+      if (options.enableAuth)
+        this.setRelayAuthFromCli(options.enableAuth, true);
+      if (options.disableAuth)
+        this.setRelayAuthFromCli(options.disableAuth, false);
 
       // If no specific action was taken, show config
       if (
         !options.pubkey &&
         !options.editor &&
         !options.addRelay &&
-        !options.removeRelay
+        !options.removeRelay &&
+        !options.enableAuth &&
+        !options.disableAuth
       ) {
         const config = loadConfig();
-        this.showConfig(config);
+        await this.showConfig(config);
       }
     } catch (error) {
       console.error(
@@ -83,19 +215,77 @@ export class ConfigCommand implements BaseCommand {
     }
   }
 
-  private showConfig(config: NostrConfig): void {
+  private async showConfig(config: NostrConfig): Promise<void> {
     console.log("\n⚙️  Current Configuration:");
     console.log("─".repeat(40));
 
-    console.log(`🔑 Signer: ***stored in system keyring***`);
-    console.log(`🆔 Public Key: ${config.pubkey ? config.pubkey : "Not set"}`);
+    const sources = getConfigSources();
+    const from = (key: keyof NostrConfig) => {
+      const layer = sources[key];
+      return layer ? ` (from ${layer.location})` : "";
+    };
+
+    console.log(`📁 Config Files:`);
+    for (const layer of getConfigLayers()) {
+      if (layer.source === "global" || layer.source === "project")
+        console.log(`   • ${layer.source}: ${layer.location}`);
+    }
+    console.log(`   • changes are saved to: ${getConfigPath()}`);
+
+    try {
+      console.log(
+        (await hasSigner())
+          ? `🔑 Signer: ***from ${await describeSignerStorage()}***, see signer --status`
+          : "🔑 Signer: Not set",
+      );
+    } catch (error) {
+      console.log(
+        `🔑 Signer: Unknown (${error instanceof Error ? error.message : error})`,
+      );
+    }
     console.log(
-      `📝 Editor: ${config.editor || "Not set (uses $EDITOR, $VISUAL, or code --wait)"}`,
+      `🆔 Public Key: ${config.pubkey ? `${config.pubkey}${from("pubkey")}` : "Not set"}`,
     );
-    console.log(`📡 Relays (${config.relays.length}):`);
+    console.log(
+      `📝 Editor: ${config.editor ? `${config.editor}${from("editor")}` : "Not set (uses $EDITOR, $VISUAL, or code --wait)"}`,
+    );
+    console.log(`📡 Relays (${config.relays.length})${from("relays")}:`);
     config.relays.forEach((relay) => {
       console.log(`   • ${relay}`);
     });
+    const profiles = Object.entries(config.profiles ?? {});
+    if (profiles.length > 0) {
+      const active = getRelayProfile(config)?.name;
+      console.log(
+        `🗂️  Relay Profiles (${profiles.length})${from("profiles")}:`,
+      );
+      for (const [name, profile] of profiles) {
+        console.log(
+          `   • ${name}${name === active ? ` (active${sources.profile ? `, from ${sources.profile.location}` : ""})` : ""}: ${profile.read?.length ?? 0} read, ${profile.write?.length ?? 0} write, ${profile.search?.length ?? 0} search`,
+        );
+      }
+    }
+    if (config.authRelays && config.authRelays.length > 0) {
+      console.log(
+        `🔒 NIP-42 Auth Relays (${config.authRelays.length})${from("authRelays")}:`,
+      );
+      config.authRelays.forEach((relay) => {
+        console.log(`   • ${relay}`);
+      });
+    }
+
+    const publish = config.publish;
+    if (publish && Object.keys(publish).length > 0) {
+      console.log(`📦 Publish Defaults${from("publish")}:`);
+      if (publish.license) console.log(`   • License: ${publish.license}`);
+      if (publish.repo) console.log(`   • Repository: ${publish.repo}`);
+      if (publish.tags?.length)
+        console.log(`   • Tags: ${publish.tags.join(", ")}`);
+      if (publish.dependencies?.length)
+        console.log(`   • Dependencies: ${publish.dependencies.join(", ")}`);
+      for (const [language, tags] of Object.entries(publish.languageTags ?? {}))
+        console.log(`   • Tags for ${language}: ${tags.join(", ")}`);
+    }
 
     console.log("\n💡 Tips:");
     console.log(
@@ -110,7 +300,9 @@ export class ConfigCommand implements BaseCommand {
     console.log(
       "   • Set signer: nostr-code-snippets signer --connect <nsec_or_nbunksec>",
     );
-    console.log("   • Signer is securely stored in your system's keyring");
+    console.log(
+      "   • Signer is stored in your system's keyring or an encrypted key file",
+    );
   }
 
   private async interactiveConfig(): Promise<void> {
@@ -118,7 +310,7 @@ export class ConfigCommand implements BaseCommand {
     console.log("─".repeat(40));
 
     const config = loadConfig();
-    this.showConfig(config);
+    await this.showConfig(config);
 
     while (true) {
       console.log("\n");
@@ -154,7 +346,7 @@ export class ConfigCommand implements BaseCommand {
           await this.configureRelays();
           break;
         case "show":
-          this.showConfig(loadConfig());
+          await this.showConfig(loadConfig());
           break;
         case "reset":
           await this.resetConfig();
@@ -453,7 +645,7 @@ export class ConfigCommand implements BaseCommand {
       const defaultConfig = this.getDefaultConfig();
       saveConfig(defaultConfig);
       console.log("✅ Configuration reset to defaults");
-      this.showConfig(defaultConfig);
+      await this.showConfig(defaultConfig);
     }
   }
 
@@ -565,4 +757,29 @@ export class ConfigCommand implements BaseCommand {
     saveConfig(config);
     console.log(`✅ Removed relay: ${trimmed}`);
   }
+
+  private setRelayAuthFromCli(relayUrl: string, enabled: boolean): void {
+    const trimmed = relayUrl.trim();
+
+    if (!this.validateRelayUrl(trimmed)) {
+      console.error(
+        "❌ Invalid relay URL format. Must start with ws:// or wss://",
+      );
+      process.exit(1);
+    }
+
+    const config = loadConfig();
+    const relay = normalizeURL(trimmed);
+    const authRelays = (config.authRelays ?? []).filter(
+      (url) => normalizeURL(url) !== relay,
+    );
+    config.authRelays = enabled ? [...authRelays, trimmed] : authRelays;
+    saveConfig(config);
+
+    console.log(
+      enabled
+        ? `✅ Enabled NIP-42 authentication for: ${trimmed}`
+        : `✅ Disabled NIP-42 authentication for: ${trimmed}`,
+    );
+  }
 }
@@ -1,71 +1,316 @@
-import { defined, simpleTimeout } from "applesauce-core";
-import { isHexKey, mergeRelaySets } from "applesauce-core/helpers";
 import { spawn } from "child_process";
 import { Command } from "commander";
-import { existsSync, readFileSync, unlinkSync, writeFileSync } from "fs";
+import {
+  existsSync,
+  readFileSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from "fs";
 import inquirer from "inquirer";
-import type { NostrEvent } from "nostr-tools";
-import { nip19 } from "nostr-tools";
 import { tmpdir } from "os";
-import { basename, extname, join } from "path";
-import { firstValueFrom } from "rxjs";
+import { basename, extname, join, resolve } from "path";
+import {
+  collectBundleFiles,
+  publishBundle,
+  type BundleMetadata,
+} from "../../helpers/bundle.js";
+import { isEventAddress, loadSnippetByAddress } from "../../helpers/address.js";
 import { loadConfig, readCodeFile } from "../../helpers/config.js";
-import { DEFAULT_SEARCH_RELAYS } from "../../helpers/const.js";
-import { logger } from "../../helpers/debug.js";
 import {
   getAllLanguages,
   getFileExtension,
   normalizeLanguage,
 } from "../../helpers/languages.js";
-import { eventStore, getWriteRelays, pool } from "../../helpers/nostr.js";
-import { getSigner } from "../../helpers/signer.js";
+import { describeRelayAuth } from "../../helpers/nostr.js";
+import {
+  applyPublishDefaults,
+  describePublishFailure,
+  getLanguageTags,
+  publishSnippet,
+  type SnippetData,
+} from "../../helpers/publish.js";
+import {
+  formatSecretFindings,
+  hasBlockingSecrets,
+  scanForSecrets,
+} from "../../helpers/secrets.js";
 import {
   getSnippetContent,
   getSnippetLanguage,
   getSnippetName,
 } from "../../helpers/snippet.js";
-import { getPublicKey, getUserSearchRelays } from "../../helpers/user.js";
 import type { BaseCommand } from "../types.js";
 
-interface SnippetData {
-  content: string;
-  language?: string;
-  title: string;
-  description?: string;
-  tags: string[];
-  dependencies: string[];
-  license?: string;
-  repo?: string;
+export type { SnippetData };
+
+/** Collect a repeatable option into an array */
+function collect(value: string, previous: string[]): string[] {
+  return previous ? [...previous, value] : [value];
+}
+
+/** Read all of stdin as a string */
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks).toString("utf-8");
 }
 
 export class CreateCommand implements BaseCommand {
   name = "create";
   description = "Create and publish a code snippet to Nostr";
 
+  /** Allow publishing content that the secret scanner would block */
+  protected allowSecrets = false;
+
+  /** Publish without prompts, printing only the result to stdout */
+  protected nonInteractive = false;
+
+  /** Add the publish defaults from the config */
+  protected useDefaults = false;
+
   setup(program: Command): void {
     program
       .command(this.name)
       .description(this.description)
       .argument(
-        "[source]",
-        "Path to code file or nevent address of existing snippet (optional)",
+        "[sources...]",
+        "Path to code file, address or link of an existing snippet to copy, or - to read from stdin (optional). Pass a directory or several files to publish a bundle",
       )
       .option(
         "-l, --language <language>",
         "Programming language or file extension (overrides auto-detection)",
       )
-      .action(async (source: string | undefined, options) => {
-        await this.execute(source, options);
+      .option("--title <title>", "Title of the snippet")
+      .option("--description <description>", "Description of the snippet")
+      .option(
+        "--tag <tag>",
+        "Tag for the snippet (can be used multiple times)",
+        collect,
+        [] as string[],
+      )
+      .option(
+        "--dep <dependency>",
+        "Dependency required by the snippet (can be used multiple times)",
+        collect,
+        [] as string[],
+      )
+      .option("--license <license>", "License of the snippet (e.g. MIT)")
+      .option("--repo <url>", "Repository URL where the code originates")
+      .option(
+        "--no-defaults",
+        "Skip the publish defaults from the config (license, tags, repository and dependencies)",
+      )
+      .option("--no-edit", "Skip opening the content in the editor")
+      .option(
+        "-y, --yes",
+        "Publish without the interactive menu or confirmation prompts",
+      )
+      .option(
+        "--format <format>",
+        "Output format when publishing with --yes (nevent|json)",
+        "nevent",
+      )
+      .option(
+        "--allow-secrets",
+        "Publish even if the secret scanner finds private keys or tokens",
+      )
+      .action(async (sources: string[], options) => {
+        const [first] = sources;
+        const isBundle =
+          sources.length > 1 ||
+          (!!first && existsSync(first) && statSync(first).isDirectory());
+
+        if (isBundle) await this.executeBundle(sources, options);
+        else await this.execute(first, options);
       });
   }
 
+  /**
+   * Check the options shared by single snippets and bundles
+   */
+  private applyCommonOptions(options: any): void {
+    this.allowSecrets = !!options.allowSecrets;
+    this.nonInteractive = !!options.yes;
+    this.useDefaults = options.defaults !== false;
+
+    if (!["nevent", "json"].includes(options.format))
+      throw new Error(
+        `Invalid format: ${options.format}. Expected nevent or json`,
+      );
+  }
+
+  /**
+   * Publish a directory or several files as a bundle of linked snippets
+   */
+  async executeBundle(paths: string[], options: any): Promise<void> {
+    try {
+      this.applyCommonOptions(options);
+      if (!this.nonInteractive && !process.stdin.isTTY)
+        throw new Error(
+          "Interactive configuration requires a terminal. Use --yes to publish non-interactively",
+        );
+
+      this.status("📦 Creating a code snippet bundle...");
+      const { files, skipped } = collectBundleFiles(paths);
+      for (const { path, reason } of skipped)
+        this.status(`⚠️  Skipping ${path} (${reason})`);
+      if (files.length === 0) throw new Error("No files to publish");
+
+      this.status(`\n📄 ${files.length} files:`);
+      for (const file of files)
+        this.status(
+          `   ${file.path} (${file.language || "unknown"}, ${file.content.length} characters)`,
+        );
+
+      let metadata: BundleMetadata = {
+        title:
+          options.title ||
+          (paths.length === 1
+            ? basename(resolve(paths[0]!))
+            : "Untitled Bundle"),
+        description: options.description || "",
+        tags: (options.tag as string[])
+          .map((tag) => tag.trim().toLowerCase())
+          .filter((tag) => tag.length > 0),
+        dependencies: (options.dep as string[])
+          .map((dep) => dep.trim())
+          .filter((dep) => dep.length > 0),
+        license: options.license || "",
+        repo: options.repo || "",
+      };
+      if (this.useDefaults) metadata = applyPublishDefaults(metadata);
+
+      if (!this.nonInteractive) {
+        const answers = await inquirer.prompt([
+          {
+            type: "input",
+            name: "title",
+            message: "Bundle title:",
+            default: metadata.title,
+          },
+          {
+            type: "input",
+            name: "description",
+            message: "Bundle description (optional):",
+            default: metadata.description,
+          },
+          {
+            type: "input",
+            name: "tags",
+            message: "Tags (comma-separated):",
+            default: metadata.tags.join(", "),
+          },
+        ]);
+
+        metadata.title = answers.title.trim() || metadata.title;
+        metadata.description = answers.description.trim();
+        metadata.tags = answers.tags
+          .split(",")
+          .map((tag: string) => tag.trim().toLowerCase())
+          .filter((tag: string) => tag.length > 0);
+      }
+
+      if (!(await this.checkForSecrets(files))) {
+        if (this.nonInteractive)
+          throw new Error("Possible secrets found in the bundle files");
+        console.log("🚫 Bundle creation cancelled.");
+        return;
+      }
+
+      if (!this.nonInteractive) {
+        const { confirmed } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirmed",
+            message: `🚀 Publish ${files.length} files as "${metadata.title}" to Nostr?`,
+            default: true,
+          },
+        ]);
+
+        if (!confirmed) {
+          console.log("🚫 Bundle creation cancelled.");
+          return;
+        }
+      }
+
+      metadata.tags = Array.from(
+        new Set(["code", "snippet", ...metadata.tags]),
+      );
+      const result = await publishBundle(files, metadata);
+
+      if (this.nonInteractive && options.format === "json") {
+        console.log(
+          JSON.stringify(
+            {
+              id: result.bundle.event.id,
+              naddr: result.naddr,
+              pubkey: result.bundle.event.pubkey,
+              created_at: result.bundle.event.created_at,
+              successful: result.bundle.successful,
+              failed: result.bundle.failed,
+              relays: result.bundle.relays,
+              files: result.files.map(({ path, report }) => ({
+                path,
+                id: report.event.id,
+                nevent: report.nevent,
+                successful: report.successful,
+                failed: report.failed,
+              })),
+            },
+            null,
+            2,
+          ),
+        );
+      } else if (this.nonInteractive) {
+        if (result.bundle.successful > 0) console.log(result.naddr);
+      } else if (result.bundle.successful > 0) {
+        console.log("\n✅ Code snippet bundle published successfully!");
+        for (const { path, report } of result.files)
+          console.log(
+            `   📄 ${path} (${report.successful}/${report.relays.length} relays)`,
+          );
+        console.log(
+          `📡 Bundle published to ${result.bundle.successful}/${result.bundle.relays.length} relays`,
+        );
+        console.log(`🆔 ${result.naddr}`);
+        console.log(
+          `💾 Download it with: nostr-code-snippets fetch ${result.naddr} --output <dir>`,
+        );
+      }
+
+      if (result.bundle.successful === 0)
+        throw new Error(describePublishFailure(result.bundle));
+    } catch (error) {
+      console.error(
+        "❌ Failed to create bundle:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+
   async execute(source: string | undefined, options: any): Promise<void> {
     try {
-      console.log("📝 Creating a new code snippet...");
+      this.applyCommonOptions(options);
+
+      // The editor and the menu both need the terminal, which is unavailable when piping content
+      const fromStdin = source === "-";
+      if (!this.nonInteractive && (fromStdin || !process.stdin.isTTY))
+        throw new Error(
+          "Interactive configuration requires a terminal. Use --yes to publish non-interactively",
+        );
+
+      this.status("📝 Creating a new code snippet...");
 
       // Step 1: Get initial content
-      const { content, language, suggestedName } =
-        await this.getInitialContent(source);
+      const { content, language, suggestedName } = fromStdin
+        ? {
+            content: await readStdin(),
+            language: undefined,
+            suggestedName: undefined,
+          }
+        : await this.getInitialContent(source);
 
       // Handle language override from command line
       const finalLanguage = options.language
@@ -73,23 +318,35 @@ export class CreateCommand implements BaseCommand {
         : language;
 
       // Step 2: Create temporary file and open editor
-      const editedContent = await this.openEditorForContent(
-        content,
-        finalLanguage,
-        suggestedName,
-      );
-
-      // Step 3: Interactive snippet configuration
-      await this.interactiveSnippetConfig({
+      const editedContent =
+        options.edit && !fromStdin && process.stdin.isTTY
+          ? await this.openEditorForContent(
+              content,
+              finalLanguage,
+              suggestedName,
+            )
+          : content;
+
+      let snippetData: SnippetData = {
         content: editedContent,
         language: finalLanguage,
-        title: suggestedName || "Untitled Snippet",
-        description: "",
-        tags: [],
-        dependencies: [],
-        license: "",
-        repo: "",
-      });
+        title: options.title || suggestedName || "Untitled Snippet",
+        description: options.description || "",
+        tags: (options.tag as string[])
+          .map((tag) => tag.trim().toLowerCase())
+          .filter((tag) => tag.length > 0),
+        dependencies: (options.dep as string[])
+          .map((dep) => dep.trim())
+          .filter((dep) => dep.length > 0),
+        license: options.license || "",
+        repo: options.repo || "",
+      };
+      if (this.useDefaults) snippetData = applyPublishDefaults(snippetData);
+
+      // Step 3: Interactive snippet configuration
+      if (this.nonInteractive)
+        await this.publishNonInteractive(snippetData, options.format);
+      else await this.interactiveSnippetConfig(snippetData);
     } catch (error) {
       console.error(
         "❌ Failed to create snippet:",
@@ -100,7 +357,62 @@ export class CreateCommand implements BaseCommand {
   }
 
   /**
-   * Get initial content from file path or nevent address
+   * Print a progress message, using stderr in non-interactive mode so stdout only contains the result
+   */
+  protected status(message: string): void {
+    if (this.nonInteractive) console.error(message);
+    else console.log(message);
+  }
+
+  /**
+   * Publish the snippet without any prompts and print the result
+   */
+  private async publishNonInteractive(
+    snippetData: SnippetData,
+    format: string,
+  ): Promise<void> {
+    if (!snippetData.content.trim())
+      throw new Error("Snippet content is empty");
+
+    if (!(await this.checkForSecrets([snippetData])))
+      throw new Error("Possible secrets found in the snippet content");
+
+    const report = await publishSnippet(this.withAutomaticTags(snippetData));
+
+    if (format === "json") {
+      console.log(
+        JSON.stringify(
+          {
+            id: report.event.id,
+            nevent: report.nevent,
+            pubkey: report.event.pubkey,
+            created_at: report.event.created_at,
+            successful: report.successful,
+            failed: report.failed,
+            relays: report.relays,
+          },
+          null,
+          2,
+        ),
+      );
+    } else {
+      for (const relay of report.relays) {
+        if (!relay.success)
+          this.status(
+            `⚠️  Failed to publish to ${relay.relay}${relay.message ? `: ${relay.message}` : ""}${relay.queued ? " (queued for retry)" : ""}`,
+          );
+        if (relay.auth)
+          this.status(`🔒 ${relay.relay}: ${describeRelayAuth(relay.auth)}`);
+      }
+      if (report.successful > 0) console.log(report.nevent);
+    }
+
+    if (report.successful === 0)
+      throw new Error(describePublishFailure(report));
+  }
+
+  /**
+   * Get initial content from file path or snippet address
    */
   private async getInitialContent(source?: string): Promise<{
     content: string;
@@ -118,77 +430,39 @@ export class CreateCommand implements BaseCommand {
 
     // Check if it's a file path
     if (existsSync(source)) {
-      console.log(`📄 Reading file: ${source}`);
+      this.status(`📄 Reading file: ${source}`);
       const { content, language } = readCodeFile(source);
       const suggestedName = basename(source, extname(source));
       return { content, language, suggestedName };
     }
 
-    // Try to parse as nevent address
+    if (!isEventAddress(source))
+      throw new Error(
+        `Source '${source}' is neither an existing file nor a Nostr address`,
+      );
+
+    // Copy the content of an existing snippet
     try {
-      console.log(`🔍 Fetching snippet: ${source}`);
+      this.status(`🔍 Fetching snippet: ${source}`);
       const { content, language, suggestedName } =
-        await this.fetchSnippetFromNevent(source);
+        await this.fetchSnippetFromAddress(source);
       return { content, language, suggestedName };
     } catch (error) {
       throw new Error(
-        `Source '${source}' is neither a valid file path nor a valid nevent address: ${error instanceof Error ? error.message : error}`,
+        `Failed to load snippet '${source}': ${error instanceof Error ? error.message : error}`,
       );
     }
   }
 
   /**
-   * Fetch snippet content from nevent address
+   * Fetch snippet content from a snippet address
    */
-  private async fetchSnippetFromNevent(address: string): Promise<{
+  private async fetchSnippetFromAddress(address: string): Promise<{
     content: string;
     language?: string;
     suggestedName?: string;
   }> {
-    let eventId: string;
-    let eventPointer: any;
-
-    // Check if it's a hex ID or nevent
-    if (isHexKey(address)) {
-      eventId = address;
-      eventPointer = address;
-    } else {
-      // Try to decode as nevent
-      let decoded;
-      try {
-        decoded = nip19.decode(address);
-      } catch (error) {
-        throw new Error(
-          `Invalid address format: Expected either a 64-character hex event ID or NIP-19 nevent identifier. Error: ${error instanceof Error ? error.message : error}`,
-        );
-      }
-
-      if (decoded.type !== "nevent")
-        throw new Error(`Expected nevent, got ${decoded.type}`);
-
-      eventPointer = decoded.data;
-      eventId = eventPointer.id;
-    }
-
-    // Load the event
-    let event: NostrEvent | undefined;
-    try {
-      event = await firstValueFrom(
-        eventStore.event(eventPointer).pipe(defined(), simpleTimeout(5_000)),
-      );
-    } catch (error) {
-      throw new Error(
-        `Failed to load event: ${error instanceof Error ? error.message : error}`,
-      );
-    }
-
-    if (!event) throw new Error(`Event not found: ${eventId}`);
-
-    // Verify it's a code snippet event (kind 1337)
-    if (event.kind !== 1337)
-      throw new Error(
-        `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
-      );
+    const event = await loadSnippetByAddress(address);
 
     const content = getSnippetContent(event);
     const language = getSnippetLanguage(event);
@@ -200,7 +474,7 @@ export class CreateCommand implements BaseCommand {
   /**
    * Create temporary file and open in user's default editor
    */
-  private async openEditorForContent(
+  protected async openEditorForContent(
     content: string,
     language?: string,
     suggestedName?: string,
@@ -270,7 +544,7 @@ export class CreateCommand implements BaseCommand {
   /**
    * Interactive snippet configuration with menu-driven interface
    */
-  private async interactiveSnippetConfig(
+  protected async interactiveSnippetConfig(
     initialData: SnippetData,
   ): Promise<void> {
     console.log("\n🔧 Interactive Snippet Configuration");
@@ -309,8 +583,8 @@ export class CreateCommand implements BaseCommand {
       }
 
       if (action === "publish") {
-        await this.confirmAndPublish(snippetData);
-        break;
+        if (await this.confirmAndPublish(snippetData)) break;
+        continue;
       }
 
       switch (action) {
@@ -865,25 +1139,100 @@ export class CreateCommand implements BaseCommand {
   }
 
   /**
-   * Confirm and publish the snippet
+   * Scan the snippet content for secrets and ask the user what to do
+   * @returns true if publishing should continue
    */
-  private async confirmAndPublish(snippetData: SnippetData): Promise<void> {
-    console.log("\n🚀 Ready to Publish");
-    console.log("═".repeat(50));
+  private async checkForSecrets(
+    files: { path?: string; content: string }[],
+  ): Promise<boolean> {
+    const results = files
+      .map((file) => ({
+        path: file.path,
+        findings: scanForSecrets(file.content),
+      }))
+      .filter((result) => result.findings.length > 0);
+    if (results.length === 0) return true;
+
+    const report = results
+      .map((result) =>
+        result.path
+          ? `📄 ${result.path}\n${formatSecretFindings(result.findings)}`
+          : formatSecretFindings(result.findings),
+      )
+      .join("\n");
+
+    // There is no one to ask, so any finding needs an explicit override
+    if (this.nonInteractive) {
+      console.error("🔐 Possible secrets found in the snippet content:");
+      console.error(report);
+      if (!this.allowSecrets)
+        console.error(
+          "⛔ Publishing blocked. Remove the secrets or run with --allow-secrets if they are not real.",
+        );
+      return this.allowSecrets;
+    }
+
+    console.log("\n🔐 Possible secrets found in the snippet content:");
+    console.log(report);
+    console.log(
+      "\n⚠️  Published events cannot be reliably deleted from relays.",
+    );
+
+    const blocking = results.some((result) =>
+      hasBlockingSecrets(result.findings),
+    );
+    if (blocking && !this.allowSecrets) {
+      console.log(
+        files.length > 1
+          ? "⛔ Publishing blocked. Remove the secrets from the files or run with --allow-secrets if they are not real."
+          : '⛔ Publishing blocked. Remove the secrets with "✏️  Edit Code Content" or run with --allow-secrets if they are not real.',
+      );
+      return false;
+    }
 
-    // Add automatic tags
+    const { publishAnyway } = await inquirer.prompt([
+      {
+        type: "confirm",
+        name: "publishAnyway",
+        message: "Publish anyway?",
+        default: false,
+      },
+    ]);
+
+    return publishAnyway;
+  }
+
+  /**
+   * Add the automatic "code", "snippet" and language tags
+   */
+  private withAutomaticTags(snippetData: SnippetData): SnippetData {
     const allTags = new Set<string>([...snippetData.tags]);
     allTags.add("code");
     allTags.add("snippet");
     if (snippetData.language) {
       allTags.add(snippetData.language.toLowerCase());
     }
-    const finalTags = Array.from(allTags);
+    // The language may have changed since the defaults were applied
+    if (this.useDefaults)
+      getLanguageTags(snippetData.language).forEach((tag) => allTags.add(tag));
+
+    return { ...snippetData, tags: Array.from(allTags) };
+  }
+
+  /**
+   * Confirm and publish the snippet
+   * @returns true if the snippet was published
+   */
+  private async confirmAndPublish(snippetData: SnippetData): Promise<boolean> {
+    console.log("\n🚀 Ready to Publish");
+    console.log("═".repeat(50));
 
-    const finalSnippetData = {
-      ...snippetData,
-      tags: finalTags,
-    };
+    const finalSnippetData = this.withAutomaticTags(snippetData);
+
+    if (!(await this.checkForSecrets([finalSnippetData]))) {
+      console.log("📝 Continue editing...");
+      return false;
+    }
 
     // Show final summary
     await this.showDetailedPreview(finalSnippetData);
@@ -899,17 +1248,36 @@ export class CreateCommand implements BaseCommand {
 
     if (!confirmed) {
       console.log("📝 Continue editing...");
-      return;
+      return false;
     }
 
     try {
-      const config = loadConfig();
-      await this.publishToNostr(finalSnippetData, config);
+      const report = await publishSnippet(finalSnippetData);
+      if (report.successful === 0)
+        throw new Error(describePublishFailure(report));
 
-      console.log("\n✅ Code snippet created and published successfully!");
+      console.log(
+        snippetData.previous
+          ? "\n✅ New version of the code snippet published successfully!"
+          : "\n✅ Code snippet created and published successfully!",
+      );
+      console.log(
+        `📡 Published to ${report.successful}/${report.relays.length} relays`,
+      );
+      for (const relay of report.relays) {
+        if (relay.auth)
+          console.log(`🔒 ${relay.relay}: ${describeRelayAuth(relay.auth)}`);
+      }
+      const queued = report.relays.filter((r) => r.queued).length;
+      if (queued > 0)
+        console.log(
+          `📮 ${queued} failed relays were queued for retry (see: nostr-code-snippets queue)`,
+        );
+      console.log(`🆔 ${report.nevent}`);
       console.log(
         "🔗 You can now search for it using: nostr-code-snippets search",
       );
+      return true;
     } catch (error) {
       console.error(
         "❌ Failed to publish snippet:",
@@ -918,139 +1286,4 @@ export class CreateCommand implements BaseCommand {
       throw error;
     }
   }
-
-  private async publishToNostr(snippetData: any, config: any): Promise<void> {
-    logger("📡 Publishing to Nostr relays...");
-    logger(`   Event kind: 1337 (NIP-C0 code snippet)`);
-    logger(`   Content size: ${snippetData.content.length} characters`);
-    logger(`   Title: ${snippetData.title}`);
-    logger(`   Language: ${snippetData.language || "Unknown"}`);
-
-    try {
-      // Get signer and user public key
-      const signer = await getSigner();
-      const pubkey = await getPublicKey();
-
-      if (!pubkey) {
-        throw new Error(
-          "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
-        );
-      }
-
-      // Build tags array for the event
-      const tags: string[][] = [];
-
-      // Add language tag
-      if (snippetData.language) {
-        tags.push(["l", snippetData.language]);
-      }
-
-      // Add name/title tag
-      tags.push(["name", snippetData.title]);
-
-      // Add description tag if provided
-      if (snippetData.description) {
-        tags.push(["description", snippetData.description]);
-      }
-
-      // Add file extension tag
-      if (snippetData.language) {
-        const extension = getFileExtension(snippetData.language);
-        tags.push(["extension", extension]);
-      }
-
-      // Add all user tags
-      snippetData.tags.forEach((tag: string) => {
-        tags.push(["t", tag]);
-      });
-
-      // Add dependencies
-      snippetData.dependencies.forEach((dep: string) => {
-        tags.push(["dep", dep]);
-      });
-
-      // Add license if provided
-      if (snippetData.license) {
-        tags.push(["license", snippetData.license]);
-      }
-
-      // Add repository URL if provided
-      if (snippetData.repo) {
-        tags.push(["repo", snippetData.repo]);
-      }
-
-      // Create the event
-      const event = {
-        kind: 1337, // NIP-C0 code snippet kind
-        created_at: Math.floor(Date.now() / 1000),
-        tags,
-        content: snippetData.content,
-        pubkey,
-      };
-
-      logger(`   Created event with ${tags.length} tags`);
-
-      // Sign the event
-      const signedEvent = await signer.signEvent(event);
-      logger(`   Event signed with ID: ${signedEvent.id}`);
-
-      // Get write relays (outbox relays + configured relays)
-      const writeRelays = await getWriteRelays();
-
-      // Get search relays for broader discoverability
-      let searchRelays: string[] = [];
-      try {
-        const userSearchRelays = await getUserSearchRelays(pubkey);
-        searchRelays = userSearchRelays;
-      } catch {
-        searchRelays = DEFAULT_SEARCH_RELAYS;
-      }
-
-      // Merge all relays for publishing
-      const allRelays = mergeRelaySets(writeRelays, searchRelays);
-      logger(
-        `   Publishing to ${allRelays.length} relays (${writeRelays.length} outbox + ${searchRelays.length} search): ${allRelays.join(", ")}`,
-      );
-
-      // Publish to relays
-      const publishPromises = allRelays.map(async (relayUrl) => {
-        try {
-          const response = await pool.relay(relayUrl).publish(signedEvent);
-          if (response.ok) {
-            logger(`   ✅ Published to ${relayUrl}`);
-            return { relay: relayUrl, success: true };
-          } else {
-            logger(
-              `   ❌ Failed to publish to ${relayUrl}: ${response.message}`,
-            );
-            return { relay: relayUrl, success: false, error: response.message };
-          }
-        } catch (error) {
-          logger(`   ❌ Failed to publish to ${relayUrl}: ${error}`);
-          return { relay: relayUrl, success: false, error };
-        }
-      });
-
-      const results = await Promise.allSettled(publishPromises);
-      const successful = results.filter(
-        (r) => r.status === "fulfilled" && r.value.success,
-      ).length;
-      const failed = results.length - successful;
-
-      if (successful > 0) {
-        logger(
-          `📡 Published successfully to ${successful}/${allRelays.length} relays`,
-        );
-        if (failed > 0) {
-          logger(`⚠️  Failed to publish to ${failed} relays`);
-        }
-      } else {
-        throw new Error(`Failed to publish to any relays (${failed} failures)`);
-      }
-    } catch (error) {
-      throw new Error(
-        `Failed to publish snippet: ${error instanceof Error ? error.message : error}`,
-      );
-    }
-  }
 }
@@ -0,0 +1,117 @@
+import { Command } from "commander";
+import inquirer from "inquirer";
+import { loadSnippetByAddress } from "../../helpers/address.js";
+import { deleteSnippets } from "../../helpers/delete.js";
+import { getSnippetCreatedAt, getSnippetTitle } from "../../helpers/snippet.js";
+import { getPublicKey } from "../../helpers/user.js";
+import {
+  fetchSnippetHistory,
+  getRevealedVersion,
+} from "../../helpers/versions.js";
+import type { BaseCommand } from "../types.js";
+
+export class DeleteCommand implements BaseCommand {
+  name = "delete";
+  description = "Ask relays to delete one of your code snippets (NIP-09)";
+
+  setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .argument(
+        "<address>",
+        "Hex event ID, note1 or nevent1 identifier, nostr: URI or web link of the snippet to delete",
+      )
+      .option("--reason <reason>", "Reason for the deletion request")
+      .option(
+        "--all-versions",
+        "Delete every version of an edited snippet (default)",
+        true,
+      )
+      .option(
+        "--no-all-versions",
+        "Only delete this version, the previous version becomes visible again",
+      )
+      .option("-y, --yes", "Skip the confirmation prompt")
+      .action(async (address: string, options) => {
+        await this.execute(address, options);
+      });
+  }
+
+  async execute(address: string, options: any): Promise<void> {
+    try {
+      const event = await loadSnippetByAddress(address);
+
+      const pubkey = await getPublicKey();
+      if (!pubkey) {
+        throw new Error(
+          "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
+        );
+      }
+      if (event.pubkey !== pubkey)
+        throw new Error("You can only delete snippets you published");
+
+      const history = await fetchSnippetHistory(event);
+      const events = options.allVersions ? history : [event];
+
+      console.log(`\n🗑️  Deleting "${getSnippetTitle(event)}"`);
+      if (events.length > 1)
+        console.log(`   Including ${events.length} versions of the snippet`);
+
+      // Deleting only the latest version brings the previous one back
+      const revealed = options.allVersions
+        ? undefined
+        : getRevealedVersion(history, event);
+      if (revealed)
+        console.log(
+          `⚠️  Only this version is deleted. The previous version ${revealed.id.substring(0, 12)}... from ${getSnippetCreatedAt(revealed).toLocaleString()} will be shown again, and any secrets in it stay public.`,
+        );
+      console.log(
+        "⚠️  Relays may ignore deletion requests and copies may already exist elsewhere.",
+      );
+
+      if (!options.yes) {
+        const { confirmed } = await inquirer.prompt([
+          {
+            type: "confirm",
+            name: "confirmed",
+            message: "Send a deletion request for this snippet?",
+            default: false,
+          },
+        ]);
+
+        if (!confirmed) {
+          console.log("❌ Deletion cancelled");
+          return;
+        }
+      }
+
+      const result = await deleteSnippets(events, options.reason);
+      const successful = result.relays.filter((r) => r.success).length;
+
+      console.log(
+        `\n📡 Deletion request ${result.deletionId.substring(0, 12)}...`,
+      );
+      for (const relay of result.relays) {
+        console.log(
+          relay.success
+            ? `   ✅ ${relay.relay}`
+            : `   ❌ ${relay.relay}${relay.message ? ` (${relay.message})` : ""}${relay.queued ? " 📮 queued for retry" : ""}`,
+        );
+      }
+
+      if (successful === 0)
+        throw new Error("No relays accepted the deletion request");
+
+      console.log(
+        `\n✅ Deletion request accepted by ${successful}/${result.relays.length} relays`,
+      );
+    } catch (error) {
+      console.error(
+        "❌ Failed to delete snippet:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { Command } from "commander";
+import { loadSnippetByAddress } from "../../helpers/address.js";
+import { logger } from "../../helpers/debug.js";
+import {
+  getSnippetContent,
+  getSnippetDependencies,
+  getSnippetDescription,
+  getSnippetLanguage,
+  getSnippetLicense,
+  getSnippetName,
+  getSnippetRepo,
+  getSnippetTags,
+} from "../../helpers/snippet.js";
+import { getPublicKey } from "../../helpers/user.js";
+import { resolveLatestSnippet } from "../../helpers/versions.js";
+import { CreateCommand } from "./create.js";
+
+const log = logger.extend("edit");
+
+export class EditCommand extends CreateCommand {
+  override name = "edit";
+  override description =
+    "Publish a new version of one of your code snippets on Nostr";
+
+  override setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .argument(
+        "<address>",
+        "Hex event ID, note1 or nevent1 identifier, nostr: URI or web link of the snippet to edit",
+      )
+      .option(
+        "--allow-secrets",
+        "Publish even if the secret scanner finds private keys or tokens",
+      )
+      .action(async (address: string, options) => {
+        await this.execute(address, options);
+      });
+  }
+
+  override async execute(address: string, options: any): Promise<void> {
+    try {
+      this.allowSecrets = !!options.allowSecrets;
+      console.log(`🔍 Fetching snippet: ${address}`);
+      const event = await loadSnippetByAddress(address);
+
+      const pubkey = await getPublicKey();
+      if (!pubkey) {
+        throw new Error(
+          "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
+        );
+      }
+      if (event.pubkey !== pubkey)
+        throw new Error("You can only edit snippets you published");
+
+      // Always build on top of the latest version
+      const latest = await resolveLatestSnippet(event);
+      if (latest.id !== event.id) {
+        log(`Editing latest version: ${latest.id}`);
+        console.log("📌 Editing the latest version of this snippet");
+      }
+
+      const language = getSnippetLanguage(latest);
+      const title = getSnippetName(latest) || "Untitled Snippet";
+
+      // Open the current content in the editor
+      const editedContent = await this.openEditorForContent(
+        getSnippetContent(latest),
+        language,
+        title,
+      );
+
+      // Start the interactive configuration with the current metadata
+      await this.interactiveSnippetConfig({
+        content: editedContent,
+        language,
+        title,
+        description: getSnippetDescription(latest),
+        tags: getSnippetTags(latest),
+        dependencies: getSnippetDependencies(latest),
+        license: getSnippetLicense(latest),
+        repo: getSnippetRepo(latest),
+        previous: latest,
+      });
+    } catch (error) {
+      console.error(
+        "❌ Failed to edit snippet:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import { Command } from "commander";
+import { logger } from "../../helpers/debug.js";
+import { fetchFollowFeed } from "../../helpers/feed.js";
+import { normalizeLanguage } from "../../helpers/languages.js";
+import {
+  displaySnippetsTable,
+  formatSnippetsDetailed,
+  getAuthorNames,
+} from "../../helpers/list.js";
+import { parseTimestamp } from "../../helpers/pagination.js";
+import { getPublicKey } from "../../helpers/user.js";
+import type { BaseCommand } from "../types.js";
+import { formatNextPageCommand } from "../utils.js";
+
+const log = logger.extend("feed");
+
+export class FeedCommand implements BaseCommand {
+  name = "feed";
+  description = "Show the latest code snippets from the people you follow";
+
+  setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .option("--limit <number>", "Number of snippets per page", "20")
+      .option("-l, --language <language>", "Filter by programming language")
+      .option(
+        "-t, --tag <tag>",
+        "Filter by tag (can be used multiple times)",
+        (value: string, previous: string[]) => {
+          return previous ? [...previous, value] : [value];
+        },
+      )
+      .option(
+        "--since <date>",
+        "Only show snippets published after a date or unix timestamp",
+      )
+      .option(
+        "--until <date>",
+        "Only show snippets published before a date or unix timestamp",
+      )
+      .option("--cursor <cursor>", "Load the page after a previous page")
+      .option(
+        "--format <format>",
+        "Output format (table|json|detailed)",
+        "table",
+      )
+      .option("--history", "Include every version of edited snippets")
+      .action(async (options) => {
+        await this.execute(options);
+      });
+  }
+
+  async execute(options: any): Promise<void> {
+    try {
+      const pubkey = await getPublicKey();
+      if (!pubkey) throw new Error("No public key found");
+
+      const result = await fetchFollowFeed(pubkey, {
+        limit: parseInt(options.limit),
+        language: options.language
+          ? normalizeLanguage(options.language) || options.language
+          : undefined,
+        tags: options.tag,
+        since: options.since ? parseTimestamp(options.since) : undefined,
+        until: options.until ? parseTimestamp(options.until) : undefined,
+        cursor: options.cursor,
+        history: options.history,
+      });
+      log(`Loaded ${result.events.length} snippets`);
+
+      if (options.format === "json") {
+        console.log(
+          JSON.stringify(
+            { events: result.events, cursor: result.cursor },
+            null,
+            2,
+          ),
+        );
+        return;
+      }
+
+      if (result.follows === 0) {
+        console.log("👥 You are not following anyone yet.");
+        return;
+      }
+
+      console.log(
+        `📰 Code snippets from the ${result.follows} people you follow:`,
+      );
+
+      if (result.events.length === 0) {
+        console.log("\n🔍 No snippets found.");
+        return;
+      }
+
+      const names = await getAuthorNames(result.events);
+      console.log(
+        options.format === "detailed"
+          ? formatSnippetsDetailed(result.events, names)
+          : displaySnippetsTable(result.events, names),
+      );
+
+      if (result.cursor)
+        console.log(`💡 Next page: ${formatNextPageCommand(result.cursor)}`);
+    } catch (error) {
+      console.error(
+        "❌ Failed to load feed:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+}
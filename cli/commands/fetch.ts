@@ -1,11 +1,22 @@
 import { Command } from "commander";
-import { defined, simpleTimeout } from "applesauce-core";
-import { isHexKey } from "applesauce-core/helpers";
+import { existsSync, readFileSync } from "fs";
 import type { NostrEvent } from "nostr-tools";
-import { nip19 } from "nostr-tools";
-import { firstValueFrom } from "rxjs";
+import { loadEventByAddress } from "../../helpers/address.js";
+import {
+  fetchBundleFiles,
+  getBundleDescription,
+  getBundleTitle,
+  isSnippetBundle,
+  resolveBundleFilePath,
+  writeBundleFiles,
+} from "../../helpers/bundle.js";
 import { logger } from "../../helpers/debug.js";
-import { eventStore } from "../../helpers/nostr.js";
+import { createUnifiedDiff } from "../../helpers/diff.js";
+import {
+  diffSnippetFile,
+  resolveSnippetFilePath,
+  writeSnippetFile,
+} from "../../helpers/output.js";
 import {
   getSnippetContent,
   getSnippetCreatedAt,
@@ -21,14 +32,18 @@ import {
 import {
   formatCodeBlock,
   highlightCode,
+  highlightDiff,
 } from "../../helpers/syntax-highlight.js";
+import { fetchSnippetHistory } from "../../helpers/versions.js";
 import type { BaseCommand } from "../types.js";
+import { formatSnippetHistory } from "../utils.js";
 
 const log = logger.extend("fetch");
 
 export class FetchCommand implements BaseCommand {
   name = "fetch";
-  description = "Fetch a single code snippet by event ID or nevent";
+  description =
+    "Fetch a single code snippet by event ID or nevent, or a bundle by naddr";
 
   setup(program: Command): void {
     program
@@ -36,13 +51,27 @@ export class FetchCommand implements BaseCommand {
       .description(this.description)
       .argument(
         "<address>",
-        "NIP-19 nevent1 identifier or hex event ID for the code snippet",
+        "Hex event ID, note1 or nevent1 identifier, naddr1 for a bundle, nostr: URI or web link (e.g. https://njump.me/nevent1...)",
       )
       .option(
         "--format <format>",
         "Output format (raw|formatted|detailed)",
         "formatted",
       )
+      .option("--history", "Show the version history of the snippet")
+      .option(
+        "--exact",
+        "Show the exact version requested instead of the latest version",
+      )
+      .option(
+        "-o, --output <path>",
+        "Save the snippet to a file or directory, or the files of a bundle to a directory",
+      )
+      .option("--force", "Overwrite existing files when saving")
+      .option(
+        "--diff",
+        "Show the changes between the existing local files and the snippet",
+      )
       .action(async (address: string, options) => {
         await this.execute(address, options);
       });
@@ -50,7 +79,10 @@ export class FetchCommand implements BaseCommand {
 
   async execute(address: string, options: any): Promise<void> {
     try {
-      const result = await this.processSingleSnippet(address, options.format);
+      if (options.diff && !options.output)
+        throw new Error("--diff requires --output to compare against");
+
+      const result = await this.processSingleSnippet(address, options);
       console.log("\n" + result);
     } catch (error) {
       console.error(
@@ -66,63 +98,157 @@ export class FetchCommand implements BaseCommand {
    */
   private async processSingleSnippet(
     address: string,
-    format: string,
+    options: {
+      format: string;
+      history?: boolean;
+      exact?: boolean;
+      output?: string;
+      force?: boolean;
+      diff?: boolean;
+    },
   ): Promise<string> {
-    let eventId: string;
-    let eventPointer: any;
-
-    // Check if it's a hex ID or nevent
-    if (isHexKey(address)) {
-      // It's a hex event ID
-      eventId = address;
-      eventPointer = address; // eventStore.event can accept just the hex ID
-      log(`Using hex event ID: ${eventId}`);
-    } else {
-      // Try to decode as nevent
-      let decoded;
-      try {
-        decoded = nip19.decode(address);
-      } catch (error) {
-        throw new Error(
-          `Invalid address format: Expected either a 64-character hex event ID or NIP-19 nevent identifier. Error: ${error instanceof Error ? error.message : error}`,
-        );
-      }
+    let event = await loadEventByAddress(address);
 
-      if (decoded.type !== "nevent") {
-        throw new Error(`Expected nevent, got ${decoded.type}`);
-      }
+    if (isSnippetBundle(event)) return this.processBundle(event, options);
 
-      eventPointer = decoded.data;
-      eventId = eventPointer.id;
-      log(`Using nevent, Event ID: ${eventId}`);
-    }
-
-    // Load the event
-    let event: NostrEvent | undefined;
-    try {
-      event = await firstValueFrom(
-        eventStore.event(eventPointer).pipe(defined(), simpleTimeout(5_000)),
-      );
-    } catch (error) {
-      log(`Failed to load event: ${error}`);
+    // Verify it's a code snippet event (kind 1337)
+    if (event.kind !== 1337) {
       throw new Error(
-        `Failed to load event: ${error instanceof Error ? error.message : error}`,
+        `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
       );
     }
 
-    if (!event) {
-      throw new Error(`Event not found: ${eventId}`);
+    log(`✅ Found code snippet: ${getSnippetTitle(event)}`);
+
+    // Resolve edited snippets to the latest version unless asked not to
+    const history =
+      options.history || !options.exact ? await fetchSnippetHistory(event) : [];
+    if (!options.exact && history[0] && history[0].id !== event.id) {
+      log(`Resolved to latest version: ${history[0].id}`);
+      event = history[0];
     }
 
-    // Verify it's a code snippet event (kind 1337)
-    if (event.kind !== 1337) {
-      throw new Error(
-        `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
+    if (options.output) return this.saveSnippet(event, options);
+
+    const output = this.formatSnippet(event, options.format);
+    if (!options.history) return output;
+
+    return `${output}\n\n${formatSnippetHistory(history, event)}`;
+  }
+
+  /**
+   * Save a snippet to disk, showing the changes to the existing file when requested
+   */
+  private saveSnippet(
+    event: NostrEvent,
+    options: { output?: string; force?: boolean; diff?: boolean },
+  ): string {
+    const path = resolveSnippetFilePath(event, options.output!);
+    const lines: string[] = [];
+
+    if (options.diff && existsSync(path)) {
+      const diff = diffSnippetFile(event, path);
+      if (!diff) return `✅ ${path} is already up to date`;
+
+      lines.push(highlightDiff(diff), "");
+      if (!options.force)
+        return [...lines, "💡 Use --force to overwrite the local file"].join(
+          "\n",
+        );
+    }
+
+    writeSnippetFile(event, path, options.force);
+    lines.push(`💾 Saved ${getSnippetTitle(event)} to ${path}`);
+    return lines.join("\n");
+  }
+
+  /**
+   * Load the files of a bundle and either write them to disk or format them
+   */
+  private async processBundle(
+    bundle: NostrEvent,
+    options: {
+      format: string;
+      output?: string;
+      force?: boolean;
+      diff?: boolean;
+    },
+  ): Promise<string> {
+    log(`✅ Found code snippet bundle: ${getBundleTitle(bundle)}`);
+    const { files, missing } = await fetchBundleFiles(bundle);
+
+    if (missing.length > 0)
+      console.warn(
+        `⚠️  Could not find ${missing.length} of the bundle files: ${missing.join(", ")}`,
       );
+    if (files.length === 0) throw new Error("No files found for the bundle");
+
+    if (options.output) {
+      const contents = files.map(({ path, event }) => ({
+        path,
+        content: getSnippetContent(event),
+      }));
+      const lines = [`📦 ${getBundleTitle(bundle)}`];
+
+      if (options.diff) {
+        const diffs = contents
+          .map(({ path, content }) => {
+            const target = resolveBundleFilePath(options.output!, path);
+            return existsSync(target)
+              ? createUnifiedDiff(
+                  readFileSync(target, "utf-8"),
+                  content,
+                  target,
+                  path,
+                )
+              : "";
+          })
+          .filter(Boolean);
+
+        lines.push(
+          ...diffs.map((diff) => `\n${highlightDiff(diff)}`),
+          diffs.length > 0
+            ? `\n📝 ${diffs.length} files differ from ${options.output}`
+            : `✅ No local files differ from the bundle`,
+        );
+
+        const existing = contents.some(({ path }) =>
+          existsSync(resolveBundleFilePath(options.output!, path)),
+        );
+        if (existing && !options.force)
+          return [...lines, "💡 Use --force to overwrite the local files"].join(
+            "\n",
+          );
+      }
+
+      const written = writeBundleFiles(contents, options.output, options.force);
+
+      return [
+        ...lines,
+        `💾 Wrote ${written.length} files to ${options.output}:`,
+        ...written.map((path) => `   ${path}`),
+      ].join("\n");
     }
 
-    log(`✅ Found code snippet: ${getSnippetTitle(event)}`);
+    const description = getBundleDescription(bundle);
+    const header = [
+      `📦 ${getBundleTitle(bundle)}`,
+      ...(description ? [description] : []),
+      `📄 ${files.length} files: ${files.map((file) => file.path).join(", ")}`,
+    ].join("\n");
 
+    const sections = files.map(
+      ({ path, event }) =>
+        `${"─".repeat(10)} ${path} ${"─".repeat(10)}\n${this.formatSnippet(event, options.format)}`,
+    );
+
+    return [header, ...sections].join("\n\n");
+  }
+
+  /**
+   * Format a snippet event based on the requested format
+   */
+  private formatSnippet(event: NostrEvent, format: string): string {
     // Format the output based on the requested format
     switch (format) {
       case "raw":
@@ -4,20 +4,31 @@ import { logger } from "../../helpers/debug.js";
 import {
   fetchUserSnippets,
   displaySnippetsTable,
+  getAuthorNames,
   formatSnippetsAsJson,
   formatSnippetsDetailed,
   type SnippetFilters,
 } from "../../helpers/list.js";
 import type { BaseCommand } from "../types.js";
-import { formatSnippetForDisplay } from "../utils.js";
-import { getPublicKey } from "../../helpers/user";
+import { formatNextPageCommand, formatSnippetForDisplay } from "../utils.js";
+import {
+  getPublicKey,
+  getUserDisplayName,
+  resolvePubkey,
+} from "../../helpers/user";
 import { normalizeLanguage } from "../../helpers/languages.js";
+import {
+  ALL_PAGES_SIZE,
+  loadAllPages,
+  parseTimestamp,
+} from "../../helpers/pagination.js";
+import { collapseSnippetVersions } from "../../helpers/snippet.js";
 
 const log = logger.extend("list");
 
 export class ListCommand implements BaseCommand {
   name = "list";
-  description = "List your published code snippets";
+  description = "List your published code snippets or those of another author";
 
   setup(program: Command): void {
     program
@@ -26,11 +37,26 @@ export class ListCommand implements BaseCommand {
       .option("--limit <number>", "Maximum number of snippets to display", "10")
       .option("-l, --language <language>", "Filter by programming language")
       .option("-t, --tag <tag>", "Filter by tag")
+      .option(
+        "-a, --author <author>",
+        "List the snippets of another author (npub, hex public key or NIP-05 address)",
+      )
       .option(
         "--format <format>",
         "Output format (table|json|detailed)",
         "table",
       )
+      .option("--history", "Include every version of edited snippets")
+      .option(
+        "--since <date>",
+        "Only show snippets published after a date or unix timestamp",
+      )
+      .option(
+        "--until <date>",
+        "Only show snippets published before a date or unix timestamp",
+      )
+      .option("--cursor <cursor>", "Load the page after a previous page")
+      .option("--all", "Load every page instead of only the first")
       .action(async (options) => {
         await this.execute(options);
       });
@@ -38,8 +64,6 @@ export class ListCommand implements BaseCommand {
 
   async execute(options: any): Promise<void> {
     try {
-      console.log("📋 Your published code snippets:");
-
       const limit = parseInt(options.limit);
 
       const normalizedLanguage = options.language
@@ -50,13 +74,39 @@ export class ListCommand implements BaseCommand {
         limit,
         language: normalizedLanguage,
         tags: options.tag,
+        history: options.history,
+        since: options.since ? parseTimestamp(options.since) : undefined,
+        until: options.until ? parseTimestamp(options.until) : undefined,
+        cursor: options.cursor,
       };
 
-      const pubkey = await getPublicKey();
+      const pubkey = options.author
+        ? await resolvePubkey(options.author)
+        : await getPublicKey();
       if (!pubkey) throw new Error("No public key found");
 
-      const result = await fetchUserSnippets(pubkey, filters);
-      const events = result.events;
+      if (options.author)
+        console.log(`📋 Code snippets by ${await getUserDisplayName(pubkey)}:`);
+      else console.log("📋 Your published code snippets:");
+
+      let events: NostrEvent[];
+      let cursor: string | undefined;
+      if (options.all) {
+        events = await loadAllPages((cursor) =>
+          fetchUserSnippets(pubkey, {
+            ...filters,
+            limit: ALL_PAGES_SIZE,
+            cursor,
+          }),
+        );
+
+        // Versions of an edited snippet can end up on different pages
+        if (!filters.history) events = collapseSnippetVersions(events);
+      } else {
+        const result = await fetchUserSnippets(pubkey, filters);
+        events = result.events;
+        cursor = result.cursor;
+      }
 
       if (events.length === 0) {
         console.log("\n🔍 No snippets found.");
@@ -70,13 +120,22 @@ export class ListCommand implements BaseCommand {
       switch (options.format) {
         case "json":
           console.log(formatSnippetsAsJson(events));
-          break;
+          // Keep stdout valid JSON
+          if (cursor) console.error(`Next cursor: ${cursor}`);
+          return;
         case "detailed":
-          console.log(formatSnippetsDetailed(events));
+          console.log(
+            formatSnippetsDetailed(events, await getAuthorNames(events)),
+          );
           break;
         default: // table
-          console.log(displaySnippetsTable(events));
+          console.log(
+            displaySnippetsTable(events, await getAuthorNames(events)),
+          );
       }
+
+      if (cursor)
+        console.log(`\n💡 Next page: ${formatNextPageCommand(cursor)}`);
     } catch (error) {
       console.error(
         "❌ Failed to list snippets:",
@@ -2,6 +2,7 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { Command } from "commander";
 import { logger } from "../../helpers/debug.js";
+import { retryQueuedEvents } from "../../helpers/publish.js";
 import { registerShutdownHandler } from "../../helpers/shutdown.js";
 import { registerAllMcpTools } from "../mcp/index.js";
 import type { BaseCommand } from "../types.js";
@@ -52,6 +53,11 @@ export class McpCommand implements BaseCommand {
       });
 
       await server.connect(transport);
+
+      // Retry events that failed to publish while the server was not running
+      retryQueuedEvents().catch((error) =>
+        log(`Failed to retry queued events: ${error}`),
+      );
     } catch (error) {
       console.error(
         "❌ Failed to start MCP server:",
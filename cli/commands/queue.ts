@@ -0,0 +1,125 @@
+import { Command } from "commander";
+import { kinds } from "nostr-tools";
+import {
+  dropQueuedEvents,
+  getQueuedEvents,
+  type OutboxEntry,
+} from "../../helpers/outbox.js";
+import { retryQueuedEvents } from "../../helpers/publish.js";
+import { getSnippetTitle } from "../../helpers/snippet.js";
+import type { BaseCommand } from "../types.js";
+
+export class QueueCommand implements BaseCommand {
+  name = "queue";
+  description = "Inspect and retry events waiting to be published to relays";
+
+  setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .option("--flush", "Retry every queued event now")
+      .option(
+        "--drop <id>",
+        "Remove a queued event by its id or id prefix (can be used multiple times)",
+        (value: string, previous: string[]) => {
+          return previous ? [...previous, value] : [value];
+        },
+      )
+      .option("--clear", "Remove every event from the queue")
+      .option("--format <format>", "Output format (table|json)", "table")
+      .action(async (options) => {
+        await this.execute(options);
+      });
+  }
+
+  async execute(options: any): Promise<void> {
+    try {
+      if (options.clear) {
+        const dropped = dropQueuedEvents();
+        console.log(`🗑️  Removed ${dropped} events from the queue`);
+        return;
+      }
+
+      if (options.drop) {
+        const dropped = dropQueuedEvents(options.drop);
+        if (dropped === 0)
+          throw new Error(`No queued events match: ${options.drop.join(", ")}`);
+        console.log(`🗑️  Removed ${dropped} events from the queue`);
+        return;
+      }
+
+      if (options.flush) {
+        console.log("📡 Retrying queued events...");
+        const result = await retryQueuedEvents(true);
+        console.log(
+          `✅ ${result.published}/${result.attempted} relays accepted their queued events, ${result.remaining} still waiting`,
+        );
+        if (result.remaining === 0) return;
+      }
+
+      const entries = getQueuedEvents();
+      if (options.format === "json") {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+
+      this.showQueue(entries);
+    } catch (error) {
+      console.error(
+        "❌ Queue command failed:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Print the events waiting in the outbox
+   */
+  private showQueue(entries: OutboxEntry[]): void {
+    if (entries.length === 0) {
+      console.log("📭 The publish queue is empty");
+      return;
+    }
+
+    console.log(`\n📮 ${entries.length} events waiting to be published`);
+    console.log("─".repeat(50));
+
+    const now = Math.floor(Date.now() / 1000);
+    entries.forEach((entry, index) => {
+      const title =
+        entry.event.kind === 1337
+          ? getSnippetTitle(entry.event)
+          : entry.event.kind === kinds.EventDeletion
+            ? "Deletion request"
+            : `Kind ${entry.event.kind} event`;
+
+      console.log(`\n${index + 1}. ${title}`);
+      console.log(`   🆔 ${entry.event.id}`);
+      console.log(
+        `   📅 Queued ${new Date(entry.queuedAt * 1000).toLocaleString()}`,
+      );
+
+      for (const relay of entry.relays) {
+        const wait = relay.nextAttempt - now;
+        const next =
+          wait > 0 ? `next retry in ${this.formatDuration(wait)}` : "retry due";
+
+        console.log(
+          `   ❌ ${relay.relay} (${relay.attempts} attempts, ${next})${relay.lastError ? `: ${relay.lastError}` : ""}`,
+        );
+      }
+    });
+
+    console.log("\n💡 Retry now with: nostr-code-snippets queue --flush");
+  }
+
+  /**
+   * Format a number of seconds as a short human readable duration
+   */
+  private formatDuration(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+    return `${Math.round(seconds / 3600)}h`;
+  }
+}
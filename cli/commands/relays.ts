@@ -0,0 +1,129 @@
+import { mergeRelaySets } from "applesauce-core/helpers";
+import { Command } from "commander";
+import { getRelayProfile, loadConfig } from "../../helpers/config.js";
+import {
+  getRelayStatus,
+  getRelayStatuses,
+  isRelayDead,
+  probeRelay,
+  rankRelays,
+  type RelayStatus,
+} from "../../helpers/relays.js";
+import type { BaseCommand } from "../types.js";
+
+export class RelaysCommand implements BaseCommand {
+  name = "relays";
+  description = "List, probe and rank the relays used for snippets";
+
+  setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .argument(
+        "[relays...]",
+        "Relays to show or probe, defaults to the relays of the selected profile or the configured relays and every relay used before",
+      )
+      .option("--probe", "Connect to each relay and measure its latency")
+      .option("--rank", "Sort relays from most to least reliable")
+      .option("--format <format>", "Output format (table|json)", "table")
+      .action(async (relays: string[], options) => {
+        await this.execute(relays, options);
+      });
+  }
+
+  async execute(relays: string[], options: any): Promise<void> {
+    try {
+      const profile = getRelayProfile();
+      const targets =
+        relays.length > 0
+          ? mergeRelaySets(relays)
+          : profile
+            ? mergeRelaySets(profile.read, profile.write, profile.search)
+            : mergeRelaySets(
+                loadConfig().relays,
+                getRelayStatuses().map((status) => status.relay),
+              );
+      if (relays.length > 0 && targets.length === 0)
+        throw new Error(`Invalid relay URLs: ${relays.join(", ")}`);
+
+      let statuses: RelayStatus[];
+      if (options.probe) {
+        if (options.format !== "json")
+          console.log(`📡 Probing ${targets.length} relays...`);
+        statuses = await Promise.all(targets.map(probeRelay));
+      } else {
+        statuses = targets.map(
+          (relay) =>
+            getRelayStatus(relay) ?? { relay, info: null, failures: 0 },
+        );
+      }
+
+      if (options.rank) statuses = rankRelays(statuses);
+
+      if (options.format === "json") {
+        console.log(JSON.stringify(statuses, null, 2));
+        return;
+      }
+
+      this.showRelays(statuses);
+    } catch (error) {
+      console.error(
+        "❌ Relays command failed:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Print the cached status of each relay
+   */
+  private showRelays(statuses: RelayStatus[]): void {
+    if (statuses.length === 0) {
+      console.log("📭 No relays configured");
+      return;
+    }
+
+    console.log(`\n📡 ${statuses.length} relays`);
+    console.log("─".repeat(50));
+
+    for (const status of statuses) {
+      const icon = isRelayDead(status)
+        ? "❌"
+        : status.failures > 0
+          ? "⚠️ "
+          : status.lastSuccess
+            ? "✅"
+            : "❔";
+
+      console.log(`\n${icon} ${status.relay}`);
+      if (status.info?.name) console.log(`   📛 ${status.info.name}`);
+      if (status.latency !== undefined)
+        console.log(`   ⏱️  ${status.latency}ms`);
+      if (status.lastSuccess)
+        console.log(
+          `   📅 Last reached ${new Date(status.lastSuccess * 1000).toLocaleString()}`,
+        );
+      if (status.failures > 0)
+        console.log(
+          `   💥 ${status.failures} failures in a row${status.lastError ? `: ${status.lastError}` : ""}`,
+        );
+
+      const nips = status.info?.supported_nips;
+      if (nips && nips.length > 0)
+        console.log(`   📜 NIPs: ${nips.join(", ")}`);
+
+      const limitation = status.info?.limitation;
+      const requirements = [
+        limitation?.auth_required && "auth",
+        limitation?.payment_required && "payment",
+      ].filter(Boolean);
+      if (requirements.length > 0)
+        console.log(`   🔒 Requires ${requirements.join(" and ")}`);
+    }
+
+    console.log(
+      "\n💡 Check every relay now with: nostr-code-snippets relays --probe --rank",
+    );
+  }
+}
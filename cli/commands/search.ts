@@ -1,12 +1,19 @@
 import { Command } from "commander";
 import { logger } from "../../helpers/debug.js";
 import type { BaseCommand } from "../types.js";
-import { formatSnippetForDisplay } from "../utils.js";
+import { formatNextPageCommand, formatSnippetForDisplay } from "../utils.js";
 import {
   searchCodeSnippets,
   type SearchFilters,
+  type SearchResult,
 } from "../../helpers/search.js";
+import {
+  ALL_PAGES_SIZE,
+  loadAllPages,
+  parseTimestamp,
+} from "../../helpers/pagination.js";
 import { normalizeLanguage } from "../../helpers/languages.js";
+import { describeRelayAuth } from "../../helpers/nostr.js";
 import type { NostrEvent } from "nostr-tools";
 
 export class SearchCommand implements BaseCommand {
@@ -17,7 +24,10 @@ export class SearchCommand implements BaseCommand {
     program
       .command(this.name)
       .description(this.description)
-      .argument("<query>", "Search query for code snippets")
+      .argument(
+        "<query>",
+        'Search query, supports lang:, tag:, author:, license:, dep:, since:, until:, "exact phrases" and -excluded words',
+      )
       .option("--limit <number>", "Maximum number of results to return", "10")
       .option("-l, --language <language>", "Filter by programming language")
       .option(
@@ -28,7 +38,14 @@ export class SearchCommand implements BaseCommand {
         },
         [] as string[],
       )
-      .option("-a, --author <author>", "Filter by author (npub or hex)")
+      .option(
+        "-a, --author <author>",
+        "Filter by author (npub, hex or NIP-05, can be used multiple times)",
+        (value: string, previous: string[]) => {
+          return previous ? [...previous, value] : [value];
+        },
+        [] as string[],
+      )
       .option(
         "--format <format>",
         "Output format (table|json|detailed)",
@@ -43,6 +60,17 @@ export class SearchCommand implements BaseCommand {
         },
         [] as string[],
       )
+      .option("--offline", "Only search the local snippet cache")
+      .option(
+        "--since <date>",
+        "Only show snippets published after a date or unix timestamp",
+      )
+      .option(
+        "--until <date>",
+        "Only show snippets published before a date or unix timestamp",
+      )
+      .option("--cursor <cursor>", "Load the page after a previous page")
+      .option("--all", "Load every page instead of only the first")
       .action(async (query: string, options) => {
         await this.execute(query, options);
       });
@@ -59,7 +87,8 @@ export class SearchCommand implements BaseCommand {
       if (options.language) searchParams.push(`Language: ${options.language}`);
       if (options.tag && options.tag.length > 0)
         searchParams.push(`Tags: ${options.tag.join(", ")}`);
-      if (options.author) searchParams.push(`Author: ${options.author}`);
+      if (options.author.length > 0)
+        searchParams.push(`Authors: ${options.author.join(", ")}`);
       if (options.relay && options.relay.length > 0)
         searchParams.push(`Extra relays: ${options.relay.join(", ")}`);
       if (searchParams.length > 0) {
@@ -76,21 +105,51 @@ export class SearchCommand implements BaseCommand {
         limit,
         language: normalizedLanguage,
         tags: options.tag.length > 0 ? options.tag : undefined,
-        author: options.author,
+        authors: options.author,
+        offline: options.offline,
+        since: options.since ? parseTimestamp(options.since) : undefined,
+        until: options.until ? parseTimestamp(options.until) : undefined,
+        cursor: options.cursor,
+        // Date and author sorting both page through the newest matches
+        sort: options.sort === "relevance" ? "relevance" : "date",
       };
 
       // Execute search using NIP-50
-      const searchResult = await searchCodeSnippets(
-        searchFilters,
-        options.relay,
-      );
+      let searchResult: SearchResult;
+      if (options.all) {
+        let lastPage: SearchResult | undefined;
+        const scores: SearchResult["scores"] = {};
+        const events = await loadAllPages(async (cursor) => {
+          lastPage = await searchCodeSnippets(
+            { ...searchFilters, limit: ALL_PAGES_SIZE, cursor },
+            options.relay,
+          );
+          Object.assign(scores, lastPage.scores);
+          return lastPage;
+        });
+
+        searchResult = {
+          ...lastPage!,
+          events,
+          total: events.length,
+          cursor: undefined,
+          scores,
+        };
+      } else {
+        searchResult = await searchCodeSnippets(searchFilters, options.relay);
+      }
+
+      for (const auth of searchResult.auth)
+        console.log(`   🔒 ${auth.relay}: ${describeRelayAuth(auth)}`);
 
       if (searchResult.events.length === 0) {
         console.log("\n🔍 No snippets found matching your search.");
         console.log("💡 Try different keywords or remove filters.");
 
         // Show search info
-        if (searchResult.nip50SupportedRelays.length > 0) {
+        if (options.offline) {
+          console.log("   Searched the local cache only");
+        } else if (searchResult.nip50SupportedRelays.length > 0) {
           console.log(
             `   Searched ${searchResult.searchedRelays.length} relays`,
           );
@@ -107,9 +166,12 @@ export class SearchCommand implements BaseCommand {
       );
 
       // Show search method info
-      console.log(
-        `   📡 Searched ${searchResult.searchedRelays.length} relays`,
-      );
+      if (!options.offline)
+        console.log(
+          `   📡 Searched ${searchResult.searchedRelays.length} relays`,
+        );
+      if (searchResult.cachedResults > 0)
+        console.log(`   📦 ${searchResult.cachedResults} from local cache`);
 
       // Sort results if needed
       let sortedEvents = [...searchResult.events];
@@ -120,13 +182,30 @@ export class SearchCommand implements BaseCommand {
         case "author":
           sortedEvents.sort((a, b) => a.pubkey.localeCompare(b.pubkey));
           break;
-        // For relevance, keep original order from search results
+        default: // relevance
+          sortedEvents.sort(
+            (a, b) =>
+              (searchResult.scores[b.id]?.total ?? 0) -
+              (searchResult.scores[a.id]?.total ?? 0),
+          );
       }
 
       switch (options.format) {
         case "json":
-          console.log(JSON.stringify(sortedEvents, null, 2));
-          break;
+          console.log(
+            JSON.stringify(
+              sortedEvents.map((event) => ({
+                ...event,
+                score: searchResult.scores[event.id],
+              })),
+              null,
+              2,
+            ),
+          );
+          // Keep stdout valid JSON
+          if (searchResult.cursor)
+            console.error(`Next cursor: ${searchResult.cursor}`);
+          return;
         case "table":
           this.displayTable(sortedEvents);
           break;
@@ -136,6 +215,11 @@ export class SearchCommand implements BaseCommand {
             console.log("─".repeat(50));
           });
       }
+
+      if (searchResult.cursor)
+        console.log(
+          `\n💡 Next page: ${formatNextPageCommand(searchResult.cursor)}`,
+        );
     } catch (error) {
       console.error(
         "❌ Search failed:",
@@ -9,6 +9,7 @@ import { loadConfig } from "../../helpers/config.js";
 import { DEFAULT_SIGNER_RELAY } from "../../helpers/const";
 import { logger } from "../../helpers/debug.js";
 import {
+  describeSignerStorage,
   getSigner,
   setSignerInKeyring,
   setSignerInstance,
@@ -40,6 +41,10 @@ export class SignerCommand implements BaseCommand {
         "-r, --reset",
         "Clear signer from keyring (keeps pubkey in config)",
       )
+      .option(
+        "-s, --status",
+        "Show the signer identity and where it is stored (default)",
+      )
       .action(async (signerArg, options) => {
         if (options.connect) {
           await this.executeConnect(signerArg);
@@ -56,17 +61,19 @@ export class SignerCommand implements BaseCommand {
   async executeStatus(): Promise<void> {
     try {
       let signerConnected = false;
+      let signerError: unknown;
 
       // Check if signer is connected
       try {
         await getSigner();
         signerConnected = true;
         log("Signer is connected");
-      } catch (signerError) {
+      } catch (error) {
         log(
-          `Signer not connected: ${signerError instanceof Error ? signerError.message : signerError}`,
+          `Signer not connected: ${error instanceof Error ? error.message : error}`,
         );
         signerConnected = false;
+        signerError = error;
       }
 
       // Get pubkey using the new centralized method
@@ -74,6 +81,12 @@ export class SignerCommand implements BaseCommand {
 
       if (!pubkey) {
         console.log("❌ No signer identity configured");
+        // Explain stored signers that could not be unlocked
+        if (
+          signerError instanceof Error &&
+          signerError.message !== "No signer configured."
+        )
+          console.log(`   ${signerError.message}`);
         console.log("\n💡 To set up your signer identity:");
         console.log("   nostr-code-snippets signer --connect");
         console.log(
@@ -84,6 +97,9 @@ export class SignerCommand implements BaseCommand {
 
       // Display the signer status information
       console.log(`🆔 Public Key: ${pubkey}`);
+      const account = loadConfig().account;
+      if (account) console.log(`👤 Account: ${account}`);
+      console.log(`🔐 Storage: ${await describeSignerStorage()}`);
 
       // Show connection status with clear indicators
       if (signerConnected) {
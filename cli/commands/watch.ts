@@ -0,0 +1,109 @@
+import { Command } from "commander";
+import type { NostrEvent } from "nostr-tools";
+import { logger } from "../../helpers/debug.js";
+import { normalizeLanguage } from "../../helpers/languages.js";
+import {
+  runSnippetHook,
+  sendDesktopNotification,
+} from "../../helpers/notify.js";
+import { getSnippetLanguage, getSnippetTitle } from "../../helpers/snippet.js";
+import { getUserDisplayName, resolvePubkey } from "../../helpers/user.js";
+import { watchSnippets } from "../../helpers/watch.js";
+import type { BaseCommand } from "../types.js";
+import { formatSnippetForDisplay } from "../utils.js";
+
+const log = logger.extend("watch");
+
+/** Collect a repeatable option into an array */
+function collect(value: string, previous: string[]): string[] {
+  return previous ? [...previous, value] : [value];
+}
+
+export class WatchCommand implements BaseCommand {
+  name = "watch";
+  description = "Stream new code snippets as they are published";
+
+  setup(program: Command): void {
+    program
+      .command(this.name)
+      .description(this.description)
+      .option("-l, --language <language>", "Only show snippets in a language")
+      .option(
+        "-t, --tag <tag>",
+        "Only show snippets with a tag (can be used multiple times)",
+        collect,
+      )
+      .option(
+        "-a, --author <author>",
+        "Only show snippets by an author, npub, hex public key or NIP-05 address (can be used multiple times)",
+        collect,
+      )
+      .option("--format <format>", "Output format (text|json)", "text")
+      .option("--notify", "Show a desktop notification for every new snippet")
+      .option(
+        "--exec <command>",
+        "Run a shell command for every new snippet. The event JSON is passed on stdin and SNIPPET_ID, SNIPPET_NEVENT, SNIPPET_TITLE, SNIPPET_LANGUAGE and SNIPPET_AUTHOR are set",
+      )
+      .action(async (options) => {
+        await this.execute(options);
+      });
+  }
+
+  async execute(options: any): Promise<void> {
+    try {
+      if (!["text", "json"].includes(options.format))
+        throw new Error(
+          `Invalid format: ${options.format}. Expected text or json`,
+        );
+
+      const authors = options.author
+        ? await Promise.all((options.author as string[]).map(resolvePubkey))
+        : undefined;
+      const language = options.language
+        ? normalizeLanguage(options.language) || options.language
+        : undefined;
+
+      if (options.format === "text")
+        console.log(
+          "👀 Watching for new code snippets... (press Ctrl+C to stop)",
+        );
+
+      // Run until the process is stopped, the shutdown handlers close the relay connections
+      await new Promise<void>((_resolve, reject) => {
+        watchSnippets({ language, tags: options.tag, authors }).subscribe({
+          next: (event) =>
+            this.handleSnippet(event, options).catch((error) =>
+              log(`Failed to handle snippet ${event.id}: ${error}`),
+            ),
+          error: reject,
+        });
+      });
+    } catch (error) {
+      console.error(
+        "❌ Failed to watch snippets:",
+        error instanceof Error ? error.message : error,
+      );
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Print a new snippet and run the notification and shell hooks
+   */
+  private async handleSnippet(event: NostrEvent, options: any): Promise<void> {
+    log(`New snippet: ${event.id}`);
+
+    if (options.format === "json") console.log(JSON.stringify(event));
+    else console.log(`\n${formatSnippetForDisplay(event)}\n${"─".repeat(50)}`);
+
+    if (options.notify) {
+      const language = getSnippetLanguage(event);
+      sendDesktopNotification(
+        `New snippet by ${await getUserDisplayName(event.pubkey)}`,
+        `${getSnippetTitle(event)}${language ? ` (${language})` : ""}`,
+      );
+    }
+
+    if (options.exec) await runSnippetHook(options.exec, event);
+  }
+}
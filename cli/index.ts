@@ -1,14 +1,22 @@
 import { Command } from "commander";
-import { setConfigPath } from "../helpers/config.js";
-import { enableDebugLogging } from "../helpers/debug.js";
+import { setAccount, setConfigPath, setProfile } from "../helpers/config.js";
+import { enableDebugLogging, logger } from "../helpers/debug.js";
+import { retryQueuedEvents } from "../helpers/publish.js";
 import { gracefulShutdown } from "../helpers/shutdown.js";
+import { AccountCommand } from "./commands/account.js";
 import { ConfigCommand } from "./commands/config.js";
 import { FetchCommand } from "./commands/fetch.js";
+import { FeedCommand } from "./commands/feed.js";
 import { ListCommand } from "./commands/list.js";
 import { McpCommand } from "./commands/mcp.js";
 import { CreateCommand } from "./commands/create.js";
+import { EditCommand } from "./commands/edit.js";
+import { DeleteCommand } from "./commands/delete.js";
+import { QueueCommand } from "./commands/queue.js";
+import { RelaysCommand } from "./commands/relays.js";
 import { SearchCommand } from "./commands/search.js";
 import { SignerCommand } from "./commands/signer.js";
+import { WatchCommand } from "./commands/watch.js";
 
 export function createCliProgram(): Command {
   const program = new Command();
@@ -21,15 +29,33 @@ export function createCliProgram(): Command {
   // Add global options
   program
     .option("-v, --verbose", "Enable verbose output")
-    .option("--config <path>", "Path to config file");
+    .option(
+      "--config <path>",
+      "Path to config file (defaults to the nearest .nostr-snippets.json, then ~/.config/nostr-code-snippets/config.json)",
+    )
+    .option(
+      "--profile <name>",
+      "Relay profile to use from the config file (or set NOSTR_SNIPPETS_PROFILE)",
+    )
+    .option(
+      "--account <name>",
+      "Account to sign with from the keyring (or set NOSTR_SNIPPETS_ACCOUNT)",
+    );
 
   // Initialize and register commands
   const commands = [
     new SignerCommand(),
+    new AccountCommand(),
     new CreateCommand(),
+    new EditCommand(),
+    new DeleteCommand(),
     new FetchCommand(),
     new ListCommand(),
+    new FeedCommand(),
+    new WatchCommand(),
     new SearchCommand(),
+    new QueueCommand(),
+    new RelaysCommand(),
     new ConfigCommand(),
     new McpCommand(),
   ];
@@ -47,18 +73,46 @@ export function createCliProgram(): Command {
     console.log("  $ nostr-code-snippets signer --connect nsec1...");
     console.log("  $ nostr-code-snippets signer --reset");
     console.log("  $ nostr-code-snippets create ./my-script.js");
+    console.log(
+      '  $ cat script.sh | nostr-code-snippets create - --yes --title "Backup script" --tag bash',
+    );
+    console.log("  $ nostr-code-snippets create ./components/button");
+    console.log("  $ nostr-code-snippets edit nevent1abc123...");
+    console.log(
+      '  $ nostr-code-snippets delete nevent1abc123... --reason "leaked key"',
+    );
     console.log(
       "  $ nostr-code-snippets fetch nevent1abc123... --format detailed",
     );
+    console.log(
+      "  $ nostr-code-snippets fetch https://njump.me/nevent1abc123...",
+    );
+    console.log(
+      "  $ nostr-code-snippets fetch nevent1abc123... --output src/ --diff",
+    );
+    console.log(
+      "  $ nostr-code-snippets fetch naddr1abc123... --output ./button",
+    );
     console.log(
       '  $ nostr-code-snippets search "react hooks" --language javascript',
     );
     console.log("  $ nostr-code-snippets list --format table --limit 5");
+    console.log("  $ nostr-code-snippets list --author alice@example.com");
+    console.log("  $ nostr-code-snippets list --since 2024-01-01 --all");
+    console.log("  $ nostr-code-snippets feed --language typescript");
+    console.log("  $ nostr-code-snippets watch --tag react --notify");
+    console.log("  $ nostr-code-snippets queue --flush");
+    console.log("  $ nostr-code-snippets relays --probe --rank");
     console.log("  $ nostr-code-snippets config --pubkey npub1...");
     console.log(
       "  $ nostr-code-snippets config --add-relay wss://relay.nostr.band",
     );
     console.log("  $ nostr-code-snippets config --editor code");
+    console.log("  $ nostr-code-snippets --profile work create ./internal.ts");
+    console.log("  $ nostr-code-snippets account add team-bot nsec1...");
+    console.log(
+      "  $ nostr-code-snippets --account team-bot create ./deploy.sh",
+    );
     console.log("");
     console.log("MCP Server Mode:");
     console.log("  $ nostr-code-snippets mcp");
@@ -69,6 +123,9 @@ export function createCliProgram(): Command {
   return program;
 }
 
+/** Commands that publish events, the queue and MCP commands retry the outbox themselves */
+const PUBLISHING_COMMANDS = new Set(["create", "edit", "delete"]);
+
 export async function runCli(): Promise<void> {
   const program = createCliProgram();
 
@@ -85,13 +142,45 @@ export async function runCli(): Promise<void> {
     if (configPath) setConfigPath(configPath);
   }
 
+  // Check for relay profile option and select it before parsing
+  const profileIndex = args.indexOf("--profile");
+  if (profileIndex !== -1 && profileIndex + 1 < args.length) {
+    const profile = args[profileIndex + 1];
+    if (profile) setProfile(profile);
+  }
+
+  // Check for account option and select it before parsing
+  const accountIndex = args.indexOf("--account");
+  if (accountIndex !== -1 && accountIndex + 1 < args.length) {
+    const account = args[accountIndex + 1];
+    if (account) setAccount(account);
+  }
+
+  // Name of the top level command, known once commander has parsed the arguments
+  let commandName: string | undefined;
+  let retry: Promise<unknown> | undefined;
+  program.hook("preAction", (_program, actionCommand) => {
+    let command = actionCommand;
+    while (command.parent && command.parent !== program)
+      command = command.parent;
+    commandName = command.name();
+
+    // Retry events that failed to publish in earlier runs while a publishing
+    // command runs, so local commands don't wait on relays
+    if (PUBLISHING_COMMANDS.has(commandName))
+      retry = retryQueuedEvents(false, { timeout: 5_000 }).catch((error) =>
+        logger(`Failed to retry queued events: ${error}`),
+      );
+  });
+
   try {
     // Parse command line arguments
     await program.parseAsync(process.argv);
+    await retry;
 
     // For non-MCP commands, trigger graceful shutdown after completion
     // The MCP command handles its own shutdown lifecycle
-    if (!args.includes("mcp")) await gracefulShutdown(0);
+    if (commandName !== "mcp") await gracefulShutdown(0);
   } catch (error) {
     console.error("Command failed:", error);
     await gracefulShutdown(1);
@@ -0,0 +1,94 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { loadSnippetByAddress } from "../../helpers/address.js";
+import { logger } from "../../helpers/debug.js";
+import { deleteSnippets } from "../../helpers/delete.js";
+import { mcpError, mcpSuccess } from "../../helpers/mcp.js";
+import { getSnippetCreatedAt, getSnippetTitle } from "../../helpers/snippet.js";
+import { getPublicKey } from "../../helpers/user.js";
+import {
+  fetchSnippetHistory,
+  getRevealedVersion,
+} from "../../helpers/versions.js";
+import { formatRelayResults } from "./publish-snippet.js";
+
+const log = logger.extend("mcp:delete-snippet");
+
+export function registerDeleteSnippetTool(server: McpServer) {
+  log("🔧 Registering delete_snippet tool...");
+
+  server.registerTool(
+    "delete_snippet",
+    {
+      title: "Delete a code snippet from Nostr",
+      description:
+        "Send a NIP-09 deletion request for one of the user's code snippets. Relays may ignore the request and copies may already exist elsewhere.",
+      inputSchema: {
+        address: z
+          .string()
+          .min(10)
+          .describe(
+            "Hex id, note1 or nevent1 identifier, nostr: URI or web link of the snippet",
+          ),
+        reason: z
+          .string()
+          .optional()
+          .describe("Optional reason for the deletion request"),
+        allVersions: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Delete every version of an edited snippet. When false only this version is deleted and the previous version becomes visible again",
+          ),
+      },
+    },
+    async ({ address, reason, allVersions }) => {
+      try {
+        const event = await loadSnippetByAddress(address);
+
+        const pubkey = await getPublicKey();
+        if (!pubkey) return mcpError("No user public key found");
+        if (event.pubkey !== pubkey)
+          return mcpError("You can only delete snippets you published");
+
+        const history = await fetchSnippetHistory(event);
+        const events = allVersions ? history : [event];
+        const result = await deleteSnippets(events, reason);
+        const successful = result.relays.filter((r) => r.success).length;
+
+        const report = formatRelayResults(result.relays);
+
+        if (successful === 0)
+          return mcpError(
+            `No relays accepted the deletion request for "${getSnippetTitle(event)}":\n\n${report}`,
+          );
+
+        // Deleting only the latest version brings the previous one back
+        const revealed = allVersions
+          ? undefined
+          : getRevealedVersion(history, event);
+        const warning = revealed
+          ? `\n\n⚠️ Only this version was deleted. The previous version ${revealed.id} from ${getSnippetCreatedAt(revealed).toISOString()} is visible again and still contains its original content.`
+          : "";
+
+        return mcpSuccess(
+          `🗑️ Deletion request for "${getSnippetTitle(event)}" accepted by ${successful}/${result.relays.length} relays
+
+📊 **Deletion Details:**
+- Deletion event ID: ${result.deletionId}
+- Deleted snippets: ${result.deletedIds.length}
+
+📡 **Relays:**
+${report}${warning}`,
+        );
+      } catch (error) {
+        log(`❌ Failed to delete snippet: ${error}`);
+        return mcpError(
+          `Failed to delete snippet: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    },
+  );
+
+  log("✅ delete_snippet tool registered");
+}
@@ -1,13 +1,25 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { defined, simpleTimeout } from "applesauce-core";
-import { isHexKey } from "applesauce-core/helpers";
 import type { NostrEvent } from "nostr-tools";
-import { nip19 } from "nostr-tools";
-import { firstValueFrom } from "rxjs";
+import { existsSync } from "fs";
+import { join } from "path";
 import { z } from "zod";
+import { loadEventByAddress } from "../../helpers/address.js";
+import {
+  fetchBundleFiles,
+  getBundleDescription,
+  getBundleTitle,
+  isSnippetBundle,
+  resolveBundleFilePath,
+  writeBundleFiles,
+} from "../../helpers/bundle.js";
 import { logger } from "../../helpers/debug.js";
 import { mcpError, mcpSuccess, mcpMultiple } from "../../helpers/mcp.js";
-import { eventStore } from "../../helpers/nostr.js";
+import {
+  diffSnippetFile,
+  resolveSnippetFilePath,
+  resolveWorkspacePath,
+  writeSnippetFile,
+} from "../../helpers/output.js";
 import {
   getSnippetContent,
   getSnippetCreatedAt,
@@ -20,6 +32,8 @@ import {
   getSnippetTags,
   getSnippetTitle,
 } from "../../helpers/snippet.js";
+import { fetchSnippetHistory } from "../../helpers/versions.js";
+import { formatSnippetHistory } from "../utils.js";
 
 const log = logger.extend("mcp:fetch-snippets");
 
@@ -28,63 +42,117 @@ const log = logger.extend("mcp:fetch-snippets");
  */
 async function processSingleSnippet(
   address: string,
-  format: string,
+  options: {
+    format: string;
+    history?: boolean;
+    exact?: boolean;
+    savePath?: string;
+    overwrite?: boolean;
+  },
 ): Promise<string> {
-  let eventId: string;
-  let eventPointer: any;
-
-  // Check if it's a hex ID or nevent
-  if (isHexKey(address)) {
-    // It's a hex event ID
-    eventId = address;
-    eventPointer = address; // eventStore.event can accept just the hex ID
-    log(`Using hex event ID: ${eventId}`);
-  } else {
-    // Try to decode as nevent
-    let decoded;
-    try {
-      decoded = nip19.decode(address);
-    } catch (error) {
-      throw new Error(
-        `Invalid address format: Expected either a 64-character hex event ID or NIP-19 nevent identifier. Error: ${error instanceof Error ? error.message : error}`,
-      );
-    }
-
-    if (decoded.type !== "nevent") {
-      throw new Error(`Expected nevent, got ${decoded.type}`);
-    }
-
-    eventPointer = decoded.data;
-    eventId = eventPointer.id;
-    log(`Using nevent, Event ID: ${eventId}`);
-  }
+  let event = await loadEventByAddress(address);
 
-  // Load the event
-  let event: NostrEvent | undefined;
-  try {
-    event = await firstValueFrom(
-      eventStore.event(eventPointer).pipe(defined(), simpleTimeout(5_000)),
-    );
-  } catch (error) {
-    log(`Failed to load event: ${error}`);
+  if (isSnippetBundle(event)) return processBundle(event, options);
+
+  // Verify it's a code snippet event (kind 1337)
+  if (event.kind !== 1337) {
     throw new Error(
-      `Failed to load event: ${error instanceof Error ? error.message : error}`,
+      `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
     );
   }
 
-  if (!event) {
-    throw new Error(`Event not found: ${eventId}`);
+  log(`✅ Found code snippet: ${getSnippetTitle(event)}`);
+
+  // Resolve edited snippets to the latest version unless asked not to
+  const history =
+    options.history || !options.exact ? await fetchSnippetHistory(event) : [];
+  if (!options.exact && history[0] && history[0].id !== event.id) {
+    log(`Resolved to latest version: ${history[0].id}`);
+    event = history[0];
   }
 
-  // Verify it's a code snippet event (kind 1337)
-  if (event.kind !== 1337) {
+  if (options.savePath)
+    return saveSnippet(event, options.savePath, options.overwrite);
+
+  const output = formatSnippet(event, options.format);
+  if (!options.history) return output;
+
+  return `${output}\n\n${formatSnippetHistory(history, event)}`;
+}
+
+/**
+ * Load the files of a bundle and either save them to the workspace or format them
+ */
+async function processBundle(
+  bundle: NostrEvent,
+  options: { format: string; savePath?: string; overwrite?: boolean },
+): Promise<string> {
+  log(`✅ Found code snippet bundle: ${getBundleTitle(bundle)}`);
+  const { files, missing } = await fetchBundleFiles(bundle);
+  if (files.length === 0) throw new Error("No files found for the bundle");
+
+  const warning =
+    missing.length > 0
+      ? `\n⚠️ Could not find ${missing.length} of the bundle files: ${missing.join(", ")}`
+      : "";
+
+  if (options.savePath) {
+    const directory = resolveWorkspacePath(options.savePath);
+    // File paths come from the bundle, check they stay out of .git as well
+    for (const { path } of files)
+      resolveWorkspacePath(resolveBundleFilePath(directory, path));
+
+    const written = writeBundleFiles(
+      files.map(({ path, event }) => ({
+        path,
+        content: getSnippetContent(event),
+      })),
+      directory,
+      options.overwrite,
+    );
+
+    return `💾 Saved ${written.length} files of ${getBundleTitle(bundle)} to ${options.savePath}:\n${written.map((path) => `- ${path}`).join("\n")}${warning}`;
+  }
+
+  const description = getBundleDescription(bundle);
+  const sections = files.map(
+    ({ path, event }) =>
+      `## ${path}\n\n${formatSnippet(event, options.format)}`,
+  );
+
+  return [
+    `# 📦 ${getBundleTitle(bundle)}${description ? `\n\n${description}` : ""}${warning}`,
+    ...sections,
+  ].join("\n\n");
+}
+
+/**
+ * Save a snippet to the workspace, refusing to replace a changed file unless asked to
+ */
+function saveSnippet(
+  event: NostrEvent,
+  savePath: string,
+  overwrite = false,
+): string {
+  const path = resolveWorkspacePath(resolveSnippetFilePath(event, savePath));
+
+  if (existsSync(path) && !overwrite) {
+    const diff = diffSnippetFile(event, path);
+    if (!diff) return `✅ ${path} is already up to date`;
+
     throw new Error(
-      `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
+      `File already exists: ${path}. Set overwrite to true to replace it. Changes from the local file:\n\n\`\`\`diff\n${diff}\n\`\`\``,
     );
   }
 
-  log(`✅ Found code snippet: ${getSnippetTitle(event)}`);
+  writeSnippetFile(event, path, true);
+  return `💾 Saved ${getSnippetTitle(event)} to ${path}`;
+}
 
+/**
+ * Format a snippet event based on the requested format
+ */
+function formatSnippet(event: NostrEvent, format: string): string {
   // Format the output based on the requested format
   switch (format) {
     case "raw":
@@ -141,22 +209,51 @@ export function registerFetchSnippetsTool(server: McpServer) {
   server.registerTool(
     "fetch_code_snippets",
     {
-      title: "Fetch code snippets by event ID or nevent",
+      title: "Fetch code snippets by event ID, nevent, naddr or link",
       description: "Fetch multiple code snippets from Nostr",
       inputSchema: {
         addresses: z
           .string()
           .min(10)
           .describe(
-            "NIP-19 nevent1 identifier(s) or hex id(s) for code snippets. Multiple addresses can be provided separated by newlines.",
+            "Hex id(s), note1/nevent1 identifier(s), naddr1 bundle address(es), nostr: URIs or web links (e.g. https://njump.me/nevent1...) for code snippets. Multiple addresses can be provided separated by newlines.",
           ),
         format: z
           .enum(["raw", "formatted", "detailed"])
           .default("formatted")
           .describe("Output format for the snippet"),
+        history: z
+          .boolean()
+          .default(false)
+          .describe("Include the version history of each snippet"),
+        exact: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Return the exact version requested instead of resolving to the latest version",
+          ),
+        savePath: z
+          .string()
+          .optional()
+          .describe(
+            "Save the snippets to this workspace file or directory instead of returning their content. It must be inside the working directory, relative paths are resolved from it, and it is treated as a directory when fetching multiple snippets",
+          ),
+        overwrite: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Replace existing files when saving. Without this a diff against the existing file is returned instead",
+          ),
       },
     },
-    async ({ addresses: addressInput, format }) => {
+    async ({
+      addresses: addressInput,
+      format,
+      history,
+      exact,
+      savePath,
+      overwrite,
+    }) => {
       // Parse addresses - split on newlines and filter out empty lines
       const addresses = addressInput
         .split("\n")
@@ -168,12 +265,22 @@ export function registerFetchSnippetsTool(server: McpServer) {
 
       log(`Processing ${addresses.length} address(es)`);
 
+      // Multiple snippets can only be saved into a directory
+      const saveTarget =
+        savePath && addresses.length > 1 ? join(savePath, "/") : savePath;
+
       const results: string[] = [];
 
       // Process each address
       for (const addr of addresses) {
         try {
-          const result = await processSingleSnippet(addr, format);
+          const result = await processSingleSnippet(addr, {
+            format,
+            history,
+            exact,
+            savePath: saveTarget,
+            overwrite,
+          });
           results.push(result);
         } catch (error) {
           const errorMsg = `❌ Failed to fetch snippet ${addr}: ${error instanceof Error ? error.message : error}`;
@@ -3,12 +3,20 @@ import { registerSearchSnippetsTool } from "./search-snippets.js";
 import { registerListSnippetsTool } from "./list-snippets.js";
 import { registerFetchSnippetsTool } from "./fetch-snippets.js";
 import { registerPublishSnippetTool } from "./publish-snippet.js";
+import { registerUpdateSnippetTool } from "./update-snippet.js";
+import { registerDeleteSnippetTool } from "./delete-snippet.js";
+import { registerSnippetFeedTool } from "./snippet-feed.js";
+import { registerWatchResource } from "./watch-resource.js";
 
 export function registerAllMcpTools(server: McpServer) {
   registerSearchSnippetsTool(server);
   registerListSnippetsTool(server);
   registerFetchSnippetsTool(server);
   registerPublishSnippetTool(server);
+  registerUpdateSnippetTool(server);
+  registerDeleteSnippetTool(server);
+  registerSnippetFeedTool(server);
+  registerWatchResource(server);
 }
 
 export {
@@ -16,4 +24,8 @@ export {
   registerListSnippetsTool,
   registerFetchSnippetsTool as registerReadSnippetTool,
   registerPublishSnippetTool,
+  registerUpdateSnippetTool,
+  registerDeleteSnippetTool,
+  registerSnippetFeedTool,
+  registerWatchResource,
 };
@@ -4,12 +4,13 @@ import { logger } from "../../helpers/debug.js";
 import {
   displaySnippetsTable,
   fetchUserSnippets,
+  getAuthorNames,
   formatSnippetsAsJson,
   formatSnippetsDetailed,
   type SnippetFilters,
 } from "../../helpers/list.js";
 import { mcpError, mcpInfo, mcpMultiple } from "../../helpers/mcp.js";
-import { getPublicKey } from "../../helpers/user";
+import { getPublicKey, resolvePubkey } from "../../helpers/user";
 import { normalizeLanguage } from "../../helpers/languages.js";
 
 const log = logger.extend("mcp:list");
@@ -19,7 +20,7 @@ export function registerListSnippetsTool(server: McpServer) {
 
   server.tool(
     "list_user_snippets",
-    "List your published code snippets",
+    "List the published code snippets of the current user or another author",
     {
       limit: z
         .number()
@@ -40,10 +41,40 @@ export function registerListSnippetsTool(server: McpServer) {
         .string()
         .optional()
         .describe(
-          "The npub of the user to list snippets for. if left empty will use the current user",
+          "The npub, hex public key or NIP-05 address (user@domain.com) of the author to list snippets for. If left empty the current user is used",
+        ),
+      history: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Include every version of edited snippets instead of only the latest",
+        ),
+      since: z
+        .number()
+        .optional()
+        .describe("Only return snippets published after this unix timestamp"),
+      until: z
+        .number()
+        .optional()
+        .describe("Only return snippets published before this unix timestamp"),
+      cursor: z
+        .string()
+        .optional()
+        .describe(
+          "Cursor returned with the previous page to load the next page",
         ),
     },
-    async ({ limit, language, tags, format, user }) => {
+    async ({
+      limit,
+      language,
+      tags,
+      format,
+      user,
+      history,
+      since,
+      until,
+      cursor,
+    }) => {
       log(
         `Listing user snippets (limit: ${limit}, language: ${language || "any"}, tags: ${tags?.join(", ") || "any"}, format: ${format})`,
       );
@@ -57,12 +88,16 @@ export function registerListSnippetsTool(server: McpServer) {
           limit,
           language: normalizedLanguage,
           tags,
+          history,
+          since,
+          until,
+          cursor,
         };
 
-        user = user || (await getPublicKey());
-        if (!user) return mcpError("No user public key found");
+        const pubkey = user ? await resolvePubkey(user) : await getPublicKey();
+        if (!pubkey) return mcpError("No user public key found");
 
-        const result = await fetchUserSnippets(user, filters);
+        const result = await fetchUserSnippets(pubkey, filters);
         const events = result.events;
 
         if (events.length === 0) {
@@ -75,16 +110,25 @@ export function registerListSnippetsTool(server: McpServer) {
             formattedOutput = formatSnippetsAsJson(events);
             break;
           case "detailed":
-            formattedOutput = formatSnippetsDetailed(events);
+            formattedOutput = formatSnippetsDetailed(
+              events,
+              await getAuthorNames(events),
+            );
             break;
           default: // table
-            formattedOutput = displaySnippetsTable(events);
+            formattedOutput = displaySnippetsTable(
+              events,
+              await getAuthorNames(events),
+            );
             break;
         }
 
         return mcpMultiple([
           `Found ${events.length} snippet${events.length === 1 ? "" : "s"}:`,
           formattedOutput,
+          result.cursor
+            ? `More snippets are available, call again with cursor: ${result.cursor}`
+            : "No more snippets.",
         ]);
       } catch (error) {
         log(`❌ MCP: Error listing snippets: ${error}`);
@@ -1,28 +1,30 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { mergeRelaySets } from "applesauce-core/helpers";
 import { spawn } from "child_process";
 import { existsSync, readFileSync, unlinkSync, writeFileSync } from "fs";
 import { tmpdir } from "os";
 import { join } from "path";
 import { z } from "zod";
 import { loadConfig } from "../../helpers/config.js";
-import { DEFAULT_SEARCH_RELAYS } from "../../helpers/const.js";
 import { logger } from "../../helpers/debug.js";
 import {
   getFileExtension,
   normalizeLanguage,
 } from "../../helpers/languages.js";
 import { mcpError, mcpSuccess } from "../../helpers/mcp.js";
-import { getWriteRelays, pool } from "../../helpers/nostr.js";
-import { getSigner } from "../../helpers/signer.js";
-import { getPublicKey, getUserSearchRelays } from "../../helpers/user.js";
+import { describeRelayAuth } from "../../helpers/nostr.js";
+import {
+  applyPublishDefaults,
+  publishSnippet,
+  type RelayPublishResult,
+} from "../../helpers/publish.js";
+import { formatSecretFindings, scanForSecrets } from "../../helpers/secrets.js";
 
 const log = logger.extend("mcp:publish-snippet");
 
 /**
  * Create temporary file and open in user's default editor
  */
-async function openEditorForContent(
+export async function openEditorForContent(
   content: string,
   language?: string,
   suggestedName?: string,
@@ -85,156 +87,40 @@ async function openEditorForContent(
 }
 
 /**
- * Publish snippet to Nostr
+ * Scan content for secrets and build an error result if any are found
+ * @returns An MCP error result, or undefined if the content is safe to publish
  */
-async function publishToNostr(snippetData: {
-  content: string;
-  title: string;
-  language?: string;
-  description?: string;
-  tags: string[];
-  dependencies: string[];
-  license?: string;
-  repo?: string;
-}): Promise<{
-  eventId: string;
-  publishedRelays: number;
-  failedRelays: number;
-}> {
-  log("📡 Publishing to Nostr relays...");
-  log(`   Event kind: 1337 (NIP-C0 code snippet)`);
-  log(`   Content size: ${snippetData.content.length} characters`);
-  log(`   Title: ${snippetData.title}`);
-  log(`   Language: ${snippetData.language || "Unknown"}`);
-
-  try {
-    // Get signer and user public key
-    const signer = await getSigner();
-    const pubkey = await getPublicKey();
-
-    if (!pubkey) {
-      throw new Error(
-        "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
-      );
-    }
-
-    // Build tags array for the event
-    const tags: string[][] = [];
-
-    // Add language tag
-    if (snippetData.language) {
-      tags.push(["l", snippetData.language]);
-    }
-
-    // Add name/title tag
-    tags.push(["name", snippetData.title]);
-
-    // Add description tag if provided
-    if (snippetData.description) {
-      tags.push(["description", snippetData.description]);
-    }
-
-    // Add file extension tag
-    if (snippetData.language) {
-      const extension = getFileExtension(snippetData.language);
-      tags.push(["extension", extension]);
-    }
-
-    // Add all user tags
-    snippetData.tags.forEach((tag: string) => {
-      tags.push(["t", tag]);
-    });
-
-    // Add dependencies
-    snippetData.dependencies.forEach((dep: string) => {
-      tags.push(["dep", dep]);
-    });
+export function checkContentForSecrets(content: string, allowSecrets = false) {
+  const findings = scanForSecrets(content);
+  if (findings.length === 0) return;
 
-    // Add license if provided
-    if (snippetData.license) {
-      tags.push(["license", snippetData.license]);
-    }
-
-    // Add repository URL if provided
-    if (snippetData.repo) {
-      tags.push(["repo", snippetData.repo]);
-    }
-
-    // Create the event
-    const event = {
-      kind: 1337, // NIP-C0 code snippet kind
-      created_at: Math.floor(Date.now() / 1000),
-      tags,
-      content: snippetData.content,
-      pubkey,
-    };
-
-    log(`   Created event with ${tags.length} tags`);
-
-    // Sign the event
-    const signedEvent = await signer.signEvent(event);
-    log(`   Event signed with ID: ${signedEvent.id}`);
-
-    // Get write relays (outbox relays + configured relays)
-    const writeRelays = await getWriteRelays();
+  if (allowSecrets) {
+    log(`⚠️  Publishing with ${findings.length} possible secrets (overridden)`);
+    return;
+  }
 
-    // Get search relays for broader discoverability
-    let searchRelays: string[] = [];
-    try {
-      const userSearchRelays = await getUserSearchRelays(pubkey);
-      searchRelays = userSearchRelays;
-    } catch {
-      searchRelays = DEFAULT_SEARCH_RELAYS;
-    }
+  return mcpError(
+    `🔐 Refusing to publish: possible secrets found in the snippet content.
 
-    // Merge all relays for publishing
-    const allRelays = mergeRelaySets(writeRelays, searchRelays);
-    log(
-      `   Publishing to ${allRelays.length} relays (${writeRelays.length} outbox + ${searchRelays.length} search): ${allRelays.join(", ")}`,
-    );
+${formatSecretFindings(findings)}
 
-    // Publish to relays
-    const publishPromises = allRelays.map(async (relayUrl) => {
-      try {
-        const response = await pool.relay(relayUrl).publish(signedEvent);
-        if (response.ok) {
-          log(`   ✅ Published to ${relayUrl}`);
-          return { relay: relayUrl, success: true };
-        } else {
-          log(`   ❌ Failed to publish to ${relayUrl}: ${response.message}`);
-          return { relay: relayUrl, success: false, error: response.message };
-        }
-      } catch (error) {
-        return { relay: relayUrl, success: true };
-      }
-    });
-
-    const results = await Promise.allSettled(publishPromises);
-    const successful = results.filter(
-      (r) => r.status === "fulfilled" && r.value.success,
-    ).length;
-    const failed = results.length - successful;
+Published events cannot be reliably deleted from relays. Remove the secrets and try again. Only set allowSecrets to true if the user has confirmed these are not real secrets.`,
+  );
+}
 
-    if (successful > 0) {
-      log(
-        `📡 Published successfully to ${successful}/${allRelays.length} relays`,
-      );
-      if (failed > 0) {
-        log(`⚠️  Failed to publish to ${failed} relays`);
-      }
-      return {
-        eventId: signedEvent.id,
-        publishedRelays: successful,
-        failedRelays: failed,
-      };
-    } else {
-      throw new Error(`Failed to publish to any relays (${failed} failures)`);
-    }
-  } catch (error) {
-    throw new Error(
-      `Failed to publish snippet: ${error instanceof Error ? error.message : error}`,
-    );
-  }
+/**
+ * Format the per-relay results of a publish for the MCP response
+ */
+export function formatRelayResults(relays: RelayPublishResult[]): string {
+  return relays
+    .map(
+      (relay) =>
+        (relay.success
+          ? `- ✅ ${relay.relay}`
+          : `- ❌ ${relay.relay}${relay.message ? ` (${relay.message})` : ""}${relay.queued ? " 📮 queued for retry" : ""}`) +
+        (relay.auth ? ` 🔒 ${describeRelayAuth(relay.auth)}` : ""),
+    )
+    .join("\n");
 }
 
 export function registerPublishSnippetTool(server: McpServer) {
@@ -272,11 +158,33 @@ export function registerPublishSnippetTool(server: McpServer) {
         license: z
           .string()
           .optional()
-          .describe("Optional license for the code (e.g. 'MIT', 'Apache-2.0')"),
+          .describe(
+            "Optional license for the code (e.g. 'MIT', 'Apache-2.0'). Defaults to the license in the user's config",
+          ),
         repo: z
           .string()
           .optional()
-          .describe("Optional repository URL where this code originates"),
+          .describe(
+            "Optional repository URL where this code originates. Defaults to the repository in the user's config",
+          ),
+        account: z
+          .string()
+          .optional()
+          .describe(
+            "Optional name of the account to publish as, from `nostr-code-snippets account list`. Defaults to the user's active account",
+          ),
+        useDefaults: z
+          .boolean()
+          .default(true)
+          .describe(
+            "Add the publish defaults from the user's config: license, repository, tags and dependencies. Set to false to publish only the given metadata.",
+          ),
+        allowSecrets: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Publish even if the secret scanner finds private keys, tokens or other secrets. Only use when the user has confirmed they are not real.",
+          ),
       },
     },
     async ({
@@ -288,6 +196,9 @@ export function registerPublishSnippetTool(server: McpServer) {
       dependencies = [],
       license,
       repo,
+      account,
+      useDefaults,
+      allowSecrets,
     }) => {
       try {
         log(`📝 Creating snippet: ${title}`);
@@ -310,6 +221,12 @@ export function registerPublishSnippetTool(server: McpServer) {
           return mcpSuccess("🚫 Snippet creation cancelled (empty content).");
         }
 
+        const secretsError = checkContentForSecrets(
+          editedContent,
+          allowSecrets,
+        );
+        if (secretsError) return secretsError;
+
         // Prepare snippet data with automatic tags
         const allTags = new Set<string>([
           ...tags
@@ -322,7 +239,7 @@ export function registerPublishSnippetTool(server: McpServer) {
           allTags.add(finalLanguage.toLowerCase());
         }
 
-        const snippetData = {
+        let snippetData = {
           content: editedContent,
           title,
           language: finalLanguage,
@@ -332,20 +249,28 @@ export function registerPublishSnippetTool(server: McpServer) {
           license,
           repo,
         };
+        if (useDefaults) snippetData = applyPublishDefaults(snippetData);
 
         // Publish to Nostr
-        const publishResult = await publishToNostr(snippetData);
+        const report = await publishSnippet(snippetData, { account });
+        if (report.successful === 0)
+          return mcpError(
+            `Failed to publish snippet to any relays:\n\n${formatRelayResults(report.relays)}`,
+          );
 
         return mcpSuccess(
           `✅ Code snippet "${title}" published successfully!
 
 📊 **Snippet Details:**
-- Event ID: ${publishResult.eventId}
+- Event ID: ${report.event.id}${account ? `\n- Account: ${account}` : ""}
+- Address: ${report.nevent}
 - Language: ${finalLanguage || "Unknown"}
 - Content size: ${editedContent.length} characters
-- Tags: ${Array.from(allTags).join(", ")}
-- Published to: ${publishResult.publishedRelays} relays
-${publishResult.failedRelays > 0 ? `- Failed relays: ${publishResult.failedRelays}` : ""}
+- Tags: ${snippetData.tags.join(", ")}${snippetData.license ? `\n- License: ${snippetData.license}` : ""}
+- Published to: ${report.successful}/${report.relays.length} relays
+
+📡 **Relays:**
+${formatRelayResults(report.relays)}
 
 🔗 The snippet is now available on Nostr and can be searched using the search_snippets tool.`,
         );
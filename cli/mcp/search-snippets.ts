@@ -4,6 +4,7 @@ import { logger } from "../../helpers/debug.js";
 import { mcpError, mcpSuccess } from "../../helpers/mcp.js";
 import { searchCodeSnippets } from "../../helpers/search";
 import { normalizeLanguage } from "../../helpers/languages.js";
+import { describeRelayAuth } from "../../helpers/nostr.js";
 
 const log = logger.extend("mcp:search");
 
@@ -16,7 +17,12 @@ export function registerSearchSnippetsTool(server: McpServer) {
       title: "Search for code snippets on Nostr",
       description: "Search for code snippets on Nostr",
       inputSchema: {
-        query: z.string().min(2).describe("Search query for code snippets"),
+        query: z
+          .string()
+          .min(2)
+          .describe(
+            'Search query for code snippets. Supports lang:rust, tag:async, author:<npub, hex or NIP-05>, license:MIT, dep:tokio, since:2025-01-01, until:2025-06-01, "exact phrases" and -excluded words',
+          ),
         language: z
           .string()
           .optional()
@@ -33,9 +39,40 @@ export function registerSearchSnippetsTool(server: McpServer) {
           .describe(
             "Additional relays to search (will be checked for NIP-50 support)",
           ),
+        offline: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Only search the local cache of previously seen snippets (no network)",
+          ),
+        since: z
+          .number()
+          .optional()
+          .describe("Only return snippets published after this unix timestamp"),
+        until: z
+          .number()
+          .optional()
+          .describe(
+            "Only return snippets published before this unix timestamp",
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Cursor returned with the previous page to load the next page",
+          ),
       },
     },
-    async ({ query, language, limit, extraRelays }) => {
+    async ({
+      query,
+      language,
+      limit,
+      extraRelays,
+      offline,
+      since,
+      until,
+      cursor,
+    }) => {
       log(`Searching for "${query}"`);
 
       try {
@@ -48,6 +85,10 @@ export function registerSearchSnippetsTool(server: McpServer) {
             query,
             language: normalizedLanguage,
             limit,
+            offline,
+            since,
+            until,
+            cursor,
           },
           extraRelays,
         );
@@ -76,6 +117,7 @@ export function registerSearchSnippetsTool(server: McpServer) {
             return `${index + 1}. **${title}**
 Language: ${lang}
 Tags: ${tags || "none"}
+Relevance: ${searchResult.scores[event.id]?.total ?? 0}
 Author: ${event.pubkey.substring(0, 16)}...
 Content:
 \`\`\`${lang}
@@ -85,16 +127,25 @@ ${content}
           })
           .join("\n\n");
 
-        const searchInfo =
-          searchResult.nip50SupportedRelays.length > 0
+        let searchInfo = offline
+          ? "Searched the local cache only"
+          : searchResult.nip50SupportedRelays.length > 0
             ? `Searched ${searchResult.nip50SupportedRelays.length} NIP-50 relays`
             : `Used fallback search on ${searchResult.searchedRelays.length} relays`;
+        if (searchResult.cachedResults > 0)
+          searchInfo += ` (${searchResult.cachedResults} from local cache)`;
+        for (const auth of searchResult.auth)
+          searchInfo += `\n${auth.relay}: ${describeRelayAuth(auth)}`;
+
+        const nextPage = searchResult.cursor
+          ? `\n\nMore snippets are available, call again with cursor: ${searchResult.cursor}`
+          : "";
 
         return mcpSuccess(`Found ${searchResult.events.length} code snippets for "${query}":
 
 ${searchInfo}
 
-${resultsText}`);
+${resultsText}${nextPage}`);
       } catch (error) {
         return mcpError(
           `Error searching for "${query}": ${error instanceof Error ? error.message : error}`,
@@ -0,0 +1,118 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { logger } from "../../helpers/debug.js";
+import { fetchFollowFeed } from "../../helpers/feed.js";
+import { normalizeLanguage } from "../../helpers/languages.js";
+import {
+  displaySnippetsTable,
+  formatSnippetsAsJson,
+  formatSnippetsDetailed,
+  getAuthorNames,
+} from "../../helpers/list.js";
+import { mcpError, mcpInfo, mcpMultiple } from "../../helpers/mcp.js";
+import { getPublicKey } from "../../helpers/user.js";
+
+const log = logger.extend("mcp:feed");
+
+export function registerSnippetFeedTool(server: McpServer) {
+  log("🔧 Registering snippet_feed tool...");
+
+  server.registerTool(
+    "snippet_feed",
+    {
+      title: "Code snippets from followed people",
+      description:
+        "Show the latest code snippets published by the people the user follows on Nostr, newest first",
+      inputSchema: {
+        limit: z
+          .number()
+          .min(1)
+          .max(100)
+          .default(20)
+          .describe("Number of snippets per page"),
+        language: z
+          .string()
+          .optional()
+          .describe("Filter by programming language"),
+        tags: z.array(z.string()).optional().describe("Filter by tags"),
+        since: z
+          .number()
+          .optional()
+          .describe("Only return snippets published after this unix timestamp"),
+        until: z
+          .number()
+          .optional()
+          .describe(
+            "Only return snippets published before this unix timestamp",
+          ),
+        cursor: z
+          .string()
+          .optional()
+          .describe(
+            "Cursor returned with the previous page to load the next page",
+          ),
+        format: z
+          .enum(["table", "json", "detailed"])
+          .default("table")
+          .describe("Output format"),
+      },
+    },
+    async ({ limit, language, tags, since, until, cursor, format }) => {
+      try {
+        const pubkey = await getPublicKey();
+        if (!pubkey) return mcpError("No user public key found");
+
+        const result = await fetchFollowFeed(pubkey, {
+          limit,
+          language: language
+            ? normalizeLanguage(language) || language
+            : undefined,
+          tags,
+          since,
+          until,
+          cursor,
+        });
+
+        if (result.follows === 0)
+          return mcpInfo("The user is not following anyone yet.");
+        if (result.events.length === 0)
+          return mcpInfo("No snippets found in the feed.");
+
+        let formattedOutput: string;
+        switch (format) {
+          case "json":
+            formattedOutput = formatSnippetsAsJson(result.events);
+            break;
+          case "detailed":
+            formattedOutput = formatSnippetsDetailed(
+              result.events,
+              await getAuthorNames(result.events),
+            );
+            break;
+          default: // table
+            formattedOutput = displaySnippetsTable(
+              result.events,
+              await getAuthorNames(result.events),
+            );
+            break;
+        }
+
+        return mcpMultiple([
+          `Found ${result.events.length} snippet${result.events.length === 1 ? "" : "s"} from ${result.follows} followed people:`,
+          formattedOutput,
+          result.cursor
+            ? `More snippets are available, call again with cursor: ${result.cursor}`
+            : "No more snippets in the feed.",
+        ]);
+      } catch (error) {
+        log(`❌ MCP: Error loading feed: ${error}`);
+
+        return mcpError(
+          `Failed to load feed: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    },
+  );
+
+  log("✅ snippet_feed tool registered");
+}
@@ -0,0 +1,178 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { z } from "zod";
+import { loadSnippetByAddress } from "../../helpers/address.js";
+import { logger } from "../../helpers/debug.js";
+import { normalizeLanguage } from "../../helpers/languages.js";
+import { mcpError, mcpSuccess } from "../../helpers/mcp.js";
+import { publishSnippet } from "../../helpers/publish.js";
+import {
+  getSnippetContent,
+  getSnippetDependencies,
+  getSnippetDescription,
+  getSnippetLanguage,
+  getSnippetLicense,
+  getSnippetName,
+  getSnippetRepo,
+  getSnippetTags,
+} from "../../helpers/snippet.js";
+import { getPublicKey } from "../../helpers/user.js";
+import { resolveLatestSnippet } from "../../helpers/versions.js";
+import {
+  checkContentForSecrets,
+  formatRelayResults,
+  openEditorForContent,
+} from "./publish-snippet.js";
+
+const log = logger.extend("mcp:update-snippet");
+
+export function registerUpdateSnippetTool(server: McpServer) {
+  log("🔧 Registering update_snippet tool...");
+
+  server.registerTool(
+    "update_snippet",
+    {
+      title: "Publish a new version of a code snippet",
+      description:
+        "Publish a new version of one of the user's code snippets that supersedes the previous version. Any field that is left out is copied from the latest version. Opens the code in the user's editor for review/editing before publishing.",
+      inputSchema: {
+        address: z
+          .string()
+          .min(10)
+          .describe(
+            "Hex id, note1 or nevent1 identifier, nostr: URI or web link of the snippet",
+          ),
+        content: z
+          .string()
+          .optional()
+          .describe("The new code content for the snippet"),
+        title: z.string().optional().describe("New title/name for the snippet"),
+        language: z
+          .string()
+          .optional()
+          .describe("New programming language for the snippet"),
+        description: z
+          .string()
+          .optional()
+          .describe("New description of what the code does"),
+        tags: z
+          .array(z.string())
+          .optional()
+          .describe("Replacement list of tags for categorization"),
+        dependencies: z
+          .array(z.string())
+          .optional()
+          .describe("Replacement list of dependencies/packages required"),
+        license: z.string().optional().describe("New license for the code"),
+        repo: z
+          .string()
+          .optional()
+          .describe("New repository URL where this code originates"),
+        allowSecrets: z
+          .boolean()
+          .default(false)
+          .describe(
+            "Publish even if the secret scanner finds private keys, tokens or other secrets. Only use when the user has confirmed they are not real.",
+          ),
+      },
+    },
+    async ({
+      address,
+      content,
+      title,
+      language,
+      description,
+      tags,
+      dependencies,
+      license,
+      repo,
+      allowSecrets,
+    }) => {
+      try {
+        const event = await loadSnippetByAddress(address);
+
+        const pubkey = await getPublicKey();
+        if (!pubkey) return mcpError("No user public key found");
+        if (event.pubkey !== pubkey)
+          return mcpError("You can only update snippets you published");
+
+        // Always build on top of the latest version
+        const latest = await resolveLatestSnippet(event);
+        log(`📝 Updating snippet: ${latest.id}`);
+
+        const finalTitle =
+          title || getSnippetName(latest) || "Untitled Snippet";
+        const finalLanguage = language
+          ? normalizeLanguage(language) || language
+          : getSnippetLanguage(latest);
+
+        // Open editor for user to review/edit content
+        log("📝 Opening code in editor for review...");
+        const editedContent = await openEditorForContent(
+          content ?? getSnippetContent(latest),
+          finalLanguage,
+          finalTitle.toLowerCase().replace(/[^a-z0-9]/g, "-"),
+        );
+
+        // If content is empty after editing, user likely cancelled
+        if (!editedContent.trim()) {
+          return mcpSuccess("🚫 Snippet update cancelled (empty content).");
+        }
+
+        const secretsError = checkContentForSecrets(
+          editedContent,
+          allowSecrets,
+        );
+        if (secretsError) return secretsError;
+
+        const allTags = new Set<string>(
+          (tags ?? getSnippetTags(latest))
+            .map((tag) => tag.trim().toLowerCase())
+            .filter((tag) => tag.length > 0),
+        );
+        allTags.add("code");
+        allTags.add("snippet");
+        if (finalLanguage) allTags.add(finalLanguage.toLowerCase());
+
+        const report = await publishSnippet({
+          content: editedContent,
+          title: finalTitle,
+          language: finalLanguage,
+          description: description ?? getSnippetDescription(latest),
+          tags: Array.from(allTags),
+          dependencies: (dependencies ?? getSnippetDependencies(latest)).filter(
+            (dep) => dep.trim().length > 0,
+          ),
+          license: license ?? getSnippetLicense(latest),
+          repo: repo ?? getSnippetRepo(latest),
+          previous: latest,
+        });
+        if (report.successful === 0)
+          return mcpError(
+            `Failed to publish the new version to any relays:\n\n${formatRelayResults(report.relays)}`,
+          );
+
+        return mcpSuccess(
+          `✅ Code snippet "${finalTitle}" updated successfully!
+
+📊 **Snippet Details:**
+- New event ID: ${report.event.id}
+- Address: ${report.nevent}
+- Replaces: ${latest.id}
+- Language: ${finalLanguage || "Unknown"}
+- Content size: ${editedContent.length} characters
+- Published to: ${report.successful}/${report.relays.length} relays
+
+📡 **Relays:**
+${formatRelayResults(report.relays)}`,
+        );
+      } catch (error) {
+        log(`❌ Failed to update snippet: ${error}`);
+        return mcpError(
+          `Failed to update snippet: ${error instanceof Error ? error.message : error}`,
+        );
+      }
+    },
+  );
+
+  log("✅ update_snippet tool registered");
+}
@@ -0,0 +1,158 @@
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { NostrEvent } from "nostr-tools";
+import type { Subscription } from "rxjs";
+import { queryCachedEvents } from "../../helpers/cache.js";
+import { logger } from "../../helpers/debug.js";
+import { registerShutdownHandler } from "../../helpers/shutdown.js";
+import { resolvePubkey } from "../../helpers/user.js";
+import {
+  createWatchFilter,
+  watchSnippets,
+  type WatchFilters,
+} from "../../helpers/watch.js";
+
+const log = logger.extend("mcp:watch");
+
+/** Resource for all new snippets, filters are added as a query string path segment */
+const WATCH_URI = "nostr-snippets://watch";
+
+/** Number of new snippets kept for each watched resource */
+const MAX_WATCH_EVENTS = 50;
+
+interface ActiveWatch {
+  subscription: Subscription;
+  /** New snippets since the resource was subscribed to, newest first */
+  events: NostrEvent[];
+}
+
+const watches = new Map<string, ActiveWatch>();
+
+/** Check if a uri is a watch resource */
+function isWatchUri(uri: string): boolean {
+  return uri === WATCH_URI || uri.startsWith(`${WATCH_URI}/`);
+}
+
+/**
+ * Parse the filters from a watch uri, e.g. nostr-snippets://watch/language=typescript&tag=react
+ */
+async function parseWatchFilters(uri: string): Promise<WatchFilters> {
+  const params = new URLSearchParams(
+    uri.substring(WATCH_URI.length).replace(/^\//, ""),
+  );
+
+  const authors = params.getAll("author");
+  return {
+    language: params.get("language") || undefined,
+    tags: params.getAll("tag"),
+    authors:
+      authors.length > 0
+        ? await Promise.all(authors.map(resolvePubkey))
+        : undefined,
+  };
+}
+
+/**
+ * Read a watch resource. Subscribed resources return the snippets that arrived
+ * since subscribing, others return the latest matching snippets from the cache
+ */
+async function readWatchResource(uri: URL) {
+  const key = uri.toString();
+  let events = watches.get(key)?.events;
+
+  if (!events) {
+    const { since, ...filter } = createWatchFilter(
+      await parseWatchFilters(key),
+    );
+    events = queryCachedEvents({ ...filter, limit: 20 });
+  }
+
+  return {
+    contents: [
+      {
+        uri: key,
+        mimeType: "application/json",
+        text: JSON.stringify(events, null, 2),
+      },
+    ],
+  };
+}
+
+export function registerWatchResource(server: McpServer) {
+  log("🔧 Registering watch resource...");
+
+  server.registerResource(
+    "watch_snippets",
+    WATCH_URI,
+    {
+      title: "New code snippets",
+      description:
+        "Code snippets published while the resource is subscribed to. Subscribe to get notified when new snippets arrive",
+      mimeType: "application/json",
+    },
+    readWatchResource,
+  );
+
+  server.registerResource(
+    "watch_filtered_snippets",
+    new ResourceTemplate(`${WATCH_URI}/{filters}`, { list: undefined }),
+    {
+      title: "New code snippets matching filters",
+      description:
+        "Like nostr-snippets://watch but filtered by a query string of language, tag and author (npub, hex or NIP-05) parameters, e.g. nostr-snippets://watch/language=typescript&tag=react",
+      mimeType: "application/json",
+    },
+    readWatchResource,
+  );
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    if (!isWatchUri(uri)) throw new Error(`Unknown resource: ${uri}`);
+    if (watches.has(uri)) return {};
+
+    const watch: ActiveWatch = {
+      events: [],
+      subscription: watchSnippets(await parseWatchFilters(uri)).subscribe({
+        next: (event) => {
+          log(`New snippet for ${uri}: ${event.id}`);
+          watch.events.unshift(event);
+          watch.events.splice(MAX_WATCH_EVENTS);
+
+          server.server
+            .sendResourceUpdated({ uri })
+            .catch((error) => log(`Failed to notify client: ${error}`));
+        },
+        error: (error) => log(`Watch for ${uri} failed: ${error}`),
+      }),
+    };
+    watches.set(uri, watch);
+
+    log(`Watching ${uri}`);
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const uri = request.params.uri;
+    watches.get(uri)?.subscription.unsubscribe();
+    watches.delete(uri);
+
+    log(`Stopped watching ${uri}`);
+    return {};
+  });
+
+  log("✅ watch resource registered");
+}
+
+// Register shutdown handler to close the relay subscriptions
+registerShutdownHandler("mcp-watch", () => {
+  for (const watch of watches.values()) watch.subscription.unsubscribe();
+  watches.clear();
+});
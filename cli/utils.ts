@@ -72,3 +72,49 @@ export function formatSnippetForDisplay(event: NostrEvent): string {
 
   return lines.join("\n");
 }
+
+/** Format the version history of a snippet, newest first */
+export function formatSnippetHistory(
+  history: NostrEvent[],
+  current?: NostrEvent,
+): string {
+  const lines = [`🕘 Version history (${history.length}):`];
+
+  history.forEach((event, index) => {
+    const version = history.length - index;
+    const nevent = neventEncode({
+      id: event.id,
+      author: event.pubkey,
+      kind: event.kind,
+    });
+    const markers = [
+      index === 0 ? "latest" : undefined,
+      event.id === current?.id ? "shown" : undefined,
+    ].filter(Boolean);
+
+    lines.push(
+      `   v${version}  ${getSnippetCreatedAt(event).toLocaleString()}  ${getSnippetTitle(event)}${markers.length > 0 ? ` (${markers.join(", ")})` : ""}`,
+    );
+    lines.push(`       ${nevent}`);
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Build the command that loads the next page by repeating the arguments of this
+ * run with the new cursor, so every filter and option carries over
+ */
+export function formatNextPageCommand(cursor: string): string {
+  const args: string[] = [];
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (arg === "--cursor") i++;
+    else if (!arg.startsWith("--cursor=")) args.push(arg);
+  }
+
+  return ["nostr-code-snippets", ...args, "--cursor", cursor]
+    .map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg)))
+    .join(" ");
+}
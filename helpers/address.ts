@@ -0,0 +1,129 @@
+import { defined, simpleTimeout } from "applesauce-core";
+import { isHexKey } from "applesauce-core/helpers";
+import type { NostrEvent } from "nostr-tools";
+import { nip19 } from "nostr-tools";
+import type { AddressPointer, EventPointer } from "nostr-tools/nip19";
+import { firstValueFrom } from "rxjs";
+import { logger } from "./debug.js";
+import { eventStore } from "./nostr.js";
+
+const log = logger.extend("address");
+
+/** NIP-19 entities that point to an event */
+const EVENT_ENTITY = /\b(?:nevent|note|naddr)1[02-9ac-hj-np-z]{6,}\b/i;
+
+/** How long to wait for an event to load from the cache and relays */
+const LOAD_TIMEOUT = 5_000;
+
+export type ResolvedAddress =
+  | { type: "event"; pointer: EventPointer }
+  | { type: "address"; pointer: AddressPointer };
+
+/** Check if a string looks like a hex id, NIP-19 event address, nostr: URI or web link to an event */
+export function isEventAddress(input: string): boolean {
+  let value: string;
+  try {
+    value = normalizeAddress(input);
+  } catch {
+    // Links without an event address
+    return false;
+  }
+
+  return isHexKey(value) || EVENT_ENTITY.test(value);
+}
+
+/**
+ * Reduce a nostr: URI or web link (e.g. https://njump.me/nevent1...) to the
+ * NIP-19 identifier or hex id it contains
+ */
+export function normalizeAddress(input: string): string {
+  const value = input.trim().replace(/^nostr:/i, "");
+  if (isHexKey(value)) return value.toLowerCase();
+
+  if (/^https?:\/\//i.test(value)) {
+    const entity = value.match(EVENT_ENTITY);
+    if (entity) return entity[0].toLowerCase();
+
+    // Some clients link to the hex id of the event
+    const hex = value.match(/(?:^|[/#=:])([0-9a-f]{64})(?:$|[/?#&])/i);
+    if (hex) return hex[1]!.toLowerCase();
+
+    throw new Error(`No Nostr event address found in link: ${value}`);
+  }
+
+  return value;
+}
+
+/**
+ * Parse a hex id, note1, nevent1, naddr1, nostr: URI or web link into a pointer
+ */
+export function parseAddress(input: string): ResolvedAddress {
+  const address = normalizeAddress(input);
+  if (isHexKey(address)) return { type: "event", pointer: { id: address } };
+
+  let decoded: nip19.DecodedResult;
+  try {
+    decoded = nip19.decode(address);
+  } catch (error) {
+    throw new Error(
+      `Invalid address format: Expected a hex event ID, note1, nevent1 or naddr1 identifier, nostr: URI or web link. Error: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+
+  switch (decoded.type) {
+    case "note":
+      return { type: "event", pointer: { id: decoded.data } };
+    case "nevent":
+      return { type: "event", pointer: decoded.data };
+    case "naddr":
+      return { type: "address", pointer: decoded.data };
+    default:
+      throw new Error(
+        `Expected an event address (note, nevent or naddr), got ${decoded.type}`,
+      );
+  }
+}
+
+/**
+ * Load the event an address points to, using the relay hints in the address
+ */
+export async function loadEventByAddress(input: string): Promise<NostrEvent> {
+  const address = parseAddress(input);
+
+  const event$ =
+    address.type === "address"
+      ? eventStore.replaceable(address.pointer)
+      : eventStore.event(address.pointer);
+
+  if (address.type === "address")
+    log(
+      `Loading address ${address.pointer.kind}:${address.pointer.pubkey}:${address.pointer.identifier}`,
+    );
+  else log(`Loading event ${address.pointer.id}`);
+  if (address.pointer.relays?.length)
+    log(`Using relay hints: ${address.pointer.relays.join(", ")}`);
+
+  return firstValueFrom(
+    event$.pipe(defined(), simpleTimeout(LOAD_TIMEOUT)),
+  ).catch((error) => {
+    log(`Failed to load event: ${error}`);
+    throw new Error(
+      `Failed to load event: ${error instanceof Error ? error.message : error}`,
+    );
+  });
+}
+
+/**
+ * Load a code snippet event from any supported address
+ */
+export async function loadSnippetByAddress(input: string): Promise<NostrEvent> {
+  const event = await loadEventByAddress(input);
+
+  // Verify it's a code snippet event (kind 1337)
+  if (event.kind !== 1337)
+    throw new Error(
+      `Event is not a code snippet (kind ${event.kind}, expected 1337)`,
+    );
+
+  return event;
+}
@@ -0,0 +1,371 @@
+import { defined, simpleTimeout } from "applesauce-core";
+import { getTagValue } from "applesauce-core/helpers";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import type { NostrEvent } from "nostr-tools";
+import { naddrEncode } from "nostr-tools/nip19";
+import {
+  dirname,
+  isAbsolute,
+  join,
+  normalize,
+  relative,
+  resolve,
+  sep,
+} from "path";
+import { firstValueFrom } from "rxjs";
+import { readCodeFile } from "./config.js";
+import { logger } from "./debug.js";
+import { eventStore } from "./nostr.js";
+import {
+  publishEvent,
+  publishSnippet,
+  type PublishOptions,
+  type PublishReport,
+} from "./publish.js";
+import { getSigner } from "./signer.js";
+import { getSnippetExtension, getSnippetName } from "./snippet.js";
+
+const log = logger.extend("bundle");
+
+/** NIP-51 curation set used to group the files of a bundle */
+export const SNIPPET_BUNDLE_KIND = 30004;
+
+/** Maximum number of files in a bundle */
+export const MAX_BUNDLE_FILES = 50;
+
+/** Files larger than this are skipped since most relays reject large events */
+export const MAX_BUNDLE_FILE_SIZE = 128 * 1024;
+
+/** Directories that are never included in a bundle */
+const IGNORED_DIRECTORIES = new Set([
+  ".git",
+  "node_modules",
+  "dist",
+  "build",
+  ".next",
+  "target",
+  "__pycache__",
+]);
+
+export interface BundleFile {
+  /** Path of the file relative to the root of the bundle, using "/" separators */
+  path: string;
+  content: string;
+  language?: string;
+}
+
+export interface BundleMetadata {
+  title: string;
+  description?: string;
+  tags: string[];
+  dependencies: string[];
+  license?: string;
+  repo?: string;
+}
+
+export interface BundleReport {
+  /** The report for the grouping event */
+  bundle: PublishReport;
+  /** NIP-19 naddr of the grouping event */
+  naddr: string;
+  files: { path: string; report: PublishReport }[];
+}
+
+export interface FetchedBundle {
+  bundle: NostrEvent;
+  files: { path: string; event: NostrEvent }[];
+  /** Ids of file events that could not be found */
+  missing: string[];
+}
+
+/** Check if an event is a code snippet bundle */
+export function isSnippetBundle(event: NostrEvent): boolean {
+  return (
+    event.kind === SNIPPET_BUNDLE_KIND && getTagValue(event, "k") === "1337"
+  );
+}
+
+/** Get the title of a code snippet bundle */
+export function getBundleTitle(event: NostrEvent): string {
+  return getTagValue(event, "title") || "Untitled Bundle";
+}
+
+/** Get the description of a code snippet bundle */
+export function getBundleDescription(event: NostrEvent): string | undefined {
+  return getTagValue(event, "description");
+}
+
+/** Get the pointers to the file events of a bundle */
+export function getBundleFilePointers(
+  event: NostrEvent,
+): { id: string; relays?: string[] }[] {
+  return event.tags
+    .filter((tag) => tag[0] === "e" && tag[1])
+    .map((tag) => ({ id: tag[1]!, relays: tag[2] ? [tag[2]] : undefined }));
+}
+
+/** Get the path a bundle file should be written to */
+export function getBundleFilePath(event: NostrEvent): string {
+  const name = getSnippetName(event);
+  if (name) return name;
+
+  const extension = getSnippetExtension(event);
+  return `${event.id.substring(0, 8)}${extension ? `.${extension}` : ""}`;
+}
+
+/**
+ * Find the deepest directory that contains all the given directories
+ */
+function getCommonDirectory(directories: string[]): string {
+  const parts = directories.map((dir) => resolve(dir).split(sep));
+  const common: string[] = [];
+
+  for (let i = 0; i < parts[0]!.length; i++) {
+    const part = parts[0]![i];
+    if (parts.some((p) => p[i] !== part)) break;
+    common.push(part!);
+  }
+
+  return common.join(sep) || sep;
+}
+
+/**
+ * Recursively list the files in a directory, skipping ignored directories
+ */
+function listDirectoryFiles(directory: string): string[] {
+  const files: string[] = [];
+
+  for (const entry of readdirSync(directory, { withFileTypes: true })) {
+    const path = join(directory, entry.name);
+
+    if (entry.isDirectory()) {
+      if (IGNORED_DIRECTORIES.has(entry.name)) continue;
+      files.push(...listDirectoryFiles(path));
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read the files for a bundle from a directory or a list of paths
+ * @returns The files and the paths that were skipped with the reason
+ */
+export function collectBundleFiles(paths: string[]): {
+  files: BundleFile[];
+  skipped: { path: string; reason: string }[];
+} {
+  const directories = paths.map((path) => {
+    if (!existsSync(path)) throw new Error(`File not found: ${path}`);
+
+    // A single directory is the root of the bundle, otherwise use the common parent
+    return statSync(path).isDirectory() && paths.length === 1
+      ? path
+      : dirname(path);
+  });
+  const root = getCommonDirectory(directories);
+
+  const filePaths = paths.flatMap((path) =>
+    statSync(path).isDirectory() ? listDirectoryFiles(path) : [path],
+  );
+
+  const files: BundleFile[] = [];
+  const skipped: { path: string; reason: string }[] = [];
+  const seen = new Set<string>();
+
+  for (const filePath of filePaths) {
+    const path = relative(root, resolve(filePath)).split(sep).join("/");
+    if (seen.has(path)) continue;
+    seen.add(path);
+
+    if (statSync(filePath).size > MAX_BUNDLE_FILE_SIZE) {
+      skipped.push({ path, reason: "file is too large" });
+      continue;
+    }
+
+    const { content, language } = readCodeFile(filePath);
+    if (content.includes("\0")) {
+      skipped.push({ path, reason: "binary file" });
+      continue;
+    }
+
+    files.push({ path, content, language });
+  }
+
+  if (files.length > MAX_BUNDLE_FILES)
+    throw new Error(
+      `Too many files for a bundle (${files.length}, maximum is ${MAX_BUNDLE_FILES})`,
+    );
+
+  log(`Collected ${files.length} files from ${root}`);
+  return { files, skipped };
+}
+
+/**
+ * Publish every file as a code snippet and a NIP-51 set that groups them
+ */
+export async function publishBundle(
+  files: BundleFile[],
+  metadata: BundleMetadata,
+  options: PublishOptions = {},
+): Promise<BundleReport> {
+  if (files.length === 0) throw new Error("The bundle has no files");
+
+  const published: BundleReport["files"] = [];
+  for (const file of files) {
+    log(`Publishing bundle file ${file.path}`);
+
+    const tags = new Set(metadata.tags);
+    if (file.language) tags.add(file.language.toLowerCase());
+
+    const report = await publishSnippet(
+      {
+        content: file.content,
+        language: file.language,
+        title: file.path,
+        description: metadata.description,
+        tags: Array.from(tags),
+        dependencies: metadata.dependencies,
+        license: metadata.license,
+        repo: metadata.repo,
+      },
+      options,
+    );
+    published.push({ path: file.path, report });
+  }
+
+  const signer = await getSigner(options.account);
+  const identifier = Math.random().toString(36).substring(2, 14);
+
+  const bundle = await signer.signEvent({
+    kind: SNIPPET_BUNDLE_KIND,
+    created_at: Math.floor(Date.now() / 1000),
+    content: "",
+    tags: [
+      ["d", identifier],
+      ["title", metadata.title],
+      ...(metadata.description ? [["description", metadata.description]] : []),
+      ...metadata.tags.map((tag) => ["t", tag]),
+      // Mark the set as a list of code snippets
+      ["k", "1337"],
+      ["alt", `Code snippet bundle: ${metadata.title}`],
+      ...published.map(({ report }) => [
+        "e",
+        report.event.id,
+        report.relays.find((r) => r.success)?.relay ?? "",
+      ]),
+    ],
+  });
+  log(`Bundle event signed with ID: ${bundle.id}`);
+
+  const report = await publishEvent(bundle, options);
+
+  return {
+    bundle: report,
+    naddr: naddrEncode({
+      kind: bundle.kind,
+      pubkey: bundle.pubkey,
+      identifier,
+      relays: report.relays
+        .filter((r) => r.success)
+        .slice(0, 3)
+        .map((r) => r.relay),
+    }),
+    files: published,
+  };
+}
+
+/**
+ * Load the file events of a bundle. Files are loaded at the exact version the bundle references
+ */
+export async function fetchBundleFiles(
+  bundle: NostrEvent,
+): Promise<FetchedBundle> {
+  const pointers = getBundleFilePointers(bundle);
+  log(`Loading ${pointers.length} files for bundle ${bundle.id}`);
+
+  const results = await Promise.all(
+    pointers.map((pointer) =>
+      firstValueFrom(
+        eventStore.event(pointer).pipe(defined(), simpleTimeout(10_000)),
+      ).catch(() => undefined),
+    ),
+  );
+
+  const files: FetchedBundle["files"] = [];
+  const missing: string[] = [];
+  results.forEach((event, index) => {
+    if (event && event.kind === 1337)
+      files.push({ path: getBundleFilePath(event), event });
+    else missing.push(pointers[index]!.id);
+  });
+
+  return { bundle, files, missing };
+}
+
+/**
+ * Resolve a bundle file path inside a directory, rejecting paths that escape it.
+ * Paths come from remote events, so hidden directories like .git (hooks) or
+ * .vscode (tasks) are rejected as well
+ */
+export function resolveBundleFilePath(directory: string, path: string): string {
+  const normalized = normalize(path);
+  if (
+    isAbsolute(normalized) ||
+    normalized === ".." ||
+    normalized.startsWith(`..${sep}`)
+  )
+    throw new Error(
+      `Refusing to write file outside of the output directory: ${path}`,
+    );
+
+  const segments = normalized.split(/[\\/]/);
+  if (
+    segments.includes(".git") ||
+    segments.slice(0, -1).some((segment) => segment.startsWith("."))
+  )
+    throw new Error(`Refusing to write file into a hidden directory: ${path}`);
+
+  return join(resolve(directory), normalized);
+}
+
+/**
+ * Write the files of a bundle to a directory
+ * @param force - Overwrite files that already exist
+ * @returns The paths of the written files
+ */
+export function writeBundleFiles(
+  files: { path: string; content: string }[],
+  directory: string,
+  force = false,
+): string[] {
+  // Check every file before writing so a conflict doesn't leave a partial tree
+  const targets = files.map((file) => ({
+    target: resolveBundleFilePath(directory, file.path),
+    content: file.content,
+  }));
+
+  if (!force) {
+    const existing = targets.filter(({ target }) => existsSync(target));
+    if (existing.length > 0)
+      throw new Error(
+        `Files already exist (use --force to overwrite): ${existing.map((e) => e.target).join(", ")}`,
+      );
+  }
+
+  for (const { target, content } of targets) {
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, content, "utf-8");
+    log(`Wrote ${target}`);
+  }
+
+  return targets.map(({ target }) => target);
+}
@@ -0,0 +1,365 @@
+import { Database } from "bun:sqlite";
+import {
+  markFromCache,
+  matchFilters,
+  type Filter,
+} from "applesauce-core/helpers";
+import { mkdirSync } from "fs";
+import { kinds, type NostrEvent } from "nostr-tools";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { logger } from "./debug.js";
+import { registerShutdownHandler } from "./shutdown.js";
+import {
+  getSnippetDescription,
+  getSnippetLanguage,
+  getSnippetName,
+  getSnippetTags,
+} from "./snippet.js";
+
+const log = logger.extend("cache");
+
+let database: Database | null = null;
+
+interface EventRow {
+  id: string;
+  pubkey: string;
+  kind: number;
+  created_at: number;
+  content: string;
+  tags: string;
+  sig: string;
+}
+
+/** Convert a database row back into a nostr event */
+function rowToEvent(row: EventRow): NostrEvent {
+  const event: NostrEvent = {
+    id: row.id,
+    pubkey: row.pubkey,
+    kind: row.kind,
+    created_at: row.created_at,
+    content: row.content,
+    tags: JSON.parse(row.tags),
+    sig: row.sig,
+  };
+
+  // Mark the event so it is not written back to the cache
+  markFromCache(event);
+  return event;
+}
+
+/**
+ * Get the path to the local snippet cache database
+ */
+export function getCachePath(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheHome, "nostr-code-snippets", "events.db");
+}
+
+/**
+ * Open the cache database, creating the schema on first use
+ */
+function getDatabase(): Database {
+  if (database) return database;
+
+  const path = getCachePath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  log(`Opening cache database: ${path}`);
+  database = new Database(path, { create: true });
+  database.run("PRAGMA journal_mode = WAL");
+  database.run(`
+    CREATE TABLE IF NOT EXISTS events (
+      id TEXT PRIMARY KEY,
+      pubkey TEXT NOT NULL,
+      kind INTEGER NOT NULL,
+      created_at INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      tags TEXT NOT NULL,
+      sig TEXT NOT NULL
+    )
+  `);
+  database.run(
+    "CREATE INDEX IF NOT EXISTS events_kind_created ON events (kind, created_at DESC)",
+  );
+  database.run(
+    "CREATE INDEX IF NOT EXISTS events_pubkey ON events (pubkey, created_at DESC)",
+  );
+
+  // Full-text index over every cached code snippet
+  database.run(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS snippets_fts USING fts5(
+      id UNINDEXED,
+      name,
+      description,
+      tags,
+      content,
+      tokenize = "porter unicode61"
+    )
+  `);
+  rebuildSearchIndexIfEmpty(database);
+
+  // NIP-09 deletion requests that apply to cached events
+  database.run(`
+    CREATE TABLE IF NOT EXISTS deletions (
+      event_id TEXT NOT NULL,
+      pubkey TEXT NOT NULL,
+      deletion_id TEXT NOT NULL,
+      PRIMARY KEY (event_id, pubkey)
+    )
+  `);
+
+  return database;
+}
+
+/**
+ * Get the text columns indexed for a code snippet event
+ */
+function getSearchIndexColumns(event: NostrEvent): string[] {
+  const language = getSnippetLanguage(event);
+
+  return [
+    event.id,
+    getSnippetName(event) || "",
+    getSnippetDescription(event) || "",
+    [...getSnippetTags(event), ...(language ? [language] : [])].join(" "),
+    event.content,
+  ];
+}
+
+/**
+ * Index snippets that were cached before the search index existed
+ */
+function rebuildSearchIndexIfEmpty(db: Database): void {
+  const indexed = db
+    .query("SELECT COUNT(*) AS count FROM snippets_fts")
+    .get() as { count: number };
+  if (indexed.count > 0) return;
+
+  const rows = db
+    .query("SELECT * FROM events WHERE kind = 1337")
+    .all() as EventRow[];
+  if (rows.length === 0) return;
+
+  log(`Building search index for ${rows.length} cached snippets`);
+  const insert = db.prepare(
+    "INSERT INTO snippets_fts (id, name, description, tags, content) VALUES (?, ?, ?, ?, ?)",
+  );
+  db.transaction(() => {
+    for (const row of rows)
+      insert.run(...getSearchIndexColumns(rowToEvent(row)));
+  })();
+}
+
+// Register shutdown handler to close the database
+registerShutdownHandler("cache", () => {
+  if (!database) return;
+
+  log("Closing cache database");
+  database.close();
+  database = null;
+});
+
+/**
+ * Save events to the local cache, ignoring events that are already stored
+ */
+export function saveEventsToCache(events: NostrEvent[]): void {
+  if (events.length === 0) return;
+
+  try {
+    const db = getDatabase();
+    const insert = db.prepare(
+      "INSERT OR IGNORE INTO events (id, pubkey, kind, created_at, content, tags, sig) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    );
+    const index = db.prepare(
+      "INSERT INTO snippets_fts (id, name, description, tags, content) VALUES (?, ?, ?, ?, ?)",
+    );
+    const isDeleted = db.prepare(
+      "SELECT 1 FROM deletions WHERE event_id = ? AND pubkey = ?",
+    );
+    const addDeletion = db.prepare(
+      "INSERT OR IGNORE INTO deletions (event_id, pubkey, deletion_id) VALUES (?, ?, ?)",
+    );
+    const removeEvent = db.prepare(
+      "DELETE FROM events WHERE id = ? AND pubkey = ?",
+    );
+    const removeFromIndex = db.prepare("DELETE FROM snippets_fts WHERE id = ?");
+
+    db.transaction((batch: NostrEvent[]) => {
+      for (const event of batch) {
+        // Never store events that their author asked to delete
+        if (isDeleted.get(event.id, event.pubkey)) continue;
+
+        const { changes } = insert.run(
+          event.id,
+          event.pubkey,
+          event.kind,
+          event.created_at,
+          event.content,
+          JSON.stringify(event.tags),
+          event.sig,
+        );
+
+        // Only index snippets the first time they are seen
+        if (changes > 0 && event.kind === 1337)
+          index.run(...getSearchIndexColumns(event));
+
+        // Apply deletion requests to the events they reference
+        if (event.kind === kinds.EventDeletion) {
+          for (const tag of event.tags) {
+            if (tag[0] !== "e" || !tag[1]) continue;
+
+            addDeletion.run(tag[1], event.pubkey, event.id);
+            if (removeEvent.run(tag[1], event.pubkey).changes > 0)
+              removeFromIndex.run(tag[1]);
+          }
+        }
+      }
+    })(events);
+
+    log(`Saved ${events.length} events to cache`);
+  } catch (error) {
+    log(`Failed to save events to cache: ${error}`);
+  }
+}
+
+/**
+ * Get the ids of events that have cached deletion requests from their authors
+ */
+export function getCachedDeletions(events: NostrEvent[]): Set<string> {
+  const deleted = new Set<string>();
+  if (events.length === 0) return deleted;
+
+  try {
+    const query = getDatabase().query(
+      "SELECT 1 FROM deletions WHERE event_id = ? AND pubkey = ?",
+    );
+    for (const event of events) {
+      if (query.get(event.id, event.pubkey)) deleted.add(event.id);
+    }
+  } catch (error) {
+    log(`Failed to read deletions from cache: ${error}`);
+  }
+
+  return deleted;
+}
+
+/**
+ * Query the local cache for events matching the filters, newest first
+ */
+export function queryCachedEvents(filters: Filter | Filter[]): NostrEvent[] {
+  const filterList = Array.isArray(filters) ? filters : [filters];
+
+  try {
+    const db = getDatabase();
+    const seen = new Set<string>();
+    const events: NostrEvent[] = [];
+
+    for (const filter of filterList) {
+      // Narrow the query with the indexed columns, tag filters are matched in memory
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+
+      const addList = (column: string, values?: (string | number)[]) => {
+        if (!values) return;
+        conditions.push(
+          `${column} IN (${values.map(() => "?").join(", ") || "NULL"})`,
+        );
+        params.push(...values);
+      };
+
+      addList("id", filter.ids);
+      addList("pubkey", filter.authors);
+      addList("kind", filter.kinds);
+
+      if (filter.since !== undefined) {
+        conditions.push("created_at >= ?");
+        params.push(filter.since);
+      }
+      if (filter.until !== undefined) {
+        conditions.push("created_at <= ?");
+        params.push(filter.until);
+      }
+
+      const where =
+        conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+      const rows = db
+        .query(`SELECT * FROM events ${where} ORDER BY created_at DESC`)
+        .all(...params) as EventRow[];
+
+      let matched = 0;
+      for (const row of rows) {
+        if (filter.limit !== undefined && matched >= filter.limit) break;
+
+        const event = rowToEvent(row);
+        if (!matchFilters([{ ...filter, limit: undefined }], event)) continue;
+
+        matched++;
+        if (seen.has(event.id)) continue;
+        seen.add(event.id);
+        events.push(event);
+      }
+    }
+
+    return events.sort((a, b) => b.created_at - a.created_at);
+  } catch (error) {
+    log(`Failed to query cache: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Build an FTS5 query that prefix matches any of the words in the search query
+ */
+function buildSearchIndexQuery(query: string): string | undefined {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu);
+  if (!terms || terms.length === 0) return undefined;
+
+  return terms.map((term) => `"${term}"*`).join(" OR ");
+}
+
+/**
+ * Full-text search the local snippet cache, most relevant first
+ * @param query - The free-text search query
+ * @param filter - An optional filter the matched events must also match
+ */
+export function searchCachedSnippets(
+  query: string,
+  filter: Filter = { kinds: [1337] },
+): NostrEvent[] {
+  const match = buildSearchIndexQuery(query);
+  if (!match) return queryCachedEvents(filter);
+
+  try {
+    // Weight name, description and tags above the raw content
+    const rows = getDatabase()
+      .query(
+        `SELECT events.* FROM snippets_fts
+         JOIN events ON events.id = snippets_fts.id
+         WHERE snippets_fts MATCH ?
+         ORDER BY bm25(snippets_fts, 0, 10, 5, 3, 1)`,
+      )
+      .all(match) as EventRow[];
+
+    const events: NostrEvent[] = [];
+    for (const row of rows) {
+      if (filter.limit !== undefined && events.length >= filter.limit) break;
+
+      const event = rowToEvent(row);
+      if (matchFilters([{ ...filter, limit: undefined }], event))
+        events.push(event);
+    }
+
+    return events;
+  } catch (error) {
+    log(`Failed to search cache: ${error}`);
+    return [];
+  }
+}
+
+/**
+ * Cache request method used by the event loaders to check the cache before relays
+ */
+export function cacheRequest(filters: Filter[]): NostrEvent[] {
+  return queryCachedEvents(filters);
+}
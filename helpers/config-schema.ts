@@ -0,0 +1,143 @@
+import { nip19 } from "nostr-tools";
+import { z } from "zod";
+
+/** Current version of the config file format */
+export const CONFIG_VERSION = 1;
+
+/**
+ * Migrations that upgrade a config file by one version. The migration at index N
+ * upgrades a version N file, files without a version are version 0
+ */
+const CONFIG_MIGRATIONS: ((
+  config: Record<string, unknown>,
+) => Record<string, unknown>)[] = [
+  // Version 1: the pubkey is stored as hex instead of an npub
+  (config) => {
+    if (
+      typeof config.pubkey === "string" &&
+      config.pubkey.startsWith("npub1")
+    ) {
+      try {
+        const decoded = nip19.decode(config.pubkey);
+        if (decoded.type === "npub") config.pubkey = decoded.data;
+      } catch {
+        // Leave invalid keys for the schema to report
+      }
+    }
+    return config;
+  },
+];
+
+const RelayUrlSchema = z.string().refine((url) => {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === "ws:" || parsed.protocol === "wss:";
+  } catch {
+    return false;
+  }
+}, "Expected a relay URL starting with ws:// or wss://");
+
+const RelayProfileSchema = z
+  .object({
+    read: z.array(RelayUrlSchema).default([]),
+    write: z.array(RelayUrlSchema).default([]),
+    search: z.array(RelayUrlSchema).default([]),
+  })
+  .strict();
+
+const PublishDefaultsSchema = z
+  .object({
+    license: z.string().min(1, "Expected a license").optional(),
+    tags: z.array(z.string().min(1, "Expected a tag")).optional(),
+    repo: z.string().url("Expected a repository URL").optional(),
+    dependencies: z
+      .array(z.string().min(1, "Expected a dependency"))
+      .optional(),
+    languageTags: z
+      .record(z.array(z.string().min(1, "Expected a tag")))
+      .optional(),
+  })
+  .strict();
+
+/** Schema of a config file. Every value is optional since files are layered */
+export const ConfigFileSchema = z
+  .object({
+    version: z.number().int().min(0).max(CONFIG_VERSION).optional(),
+    pubkey: z
+      .string()
+      .regex(/^[0-9a-f]{64}$/i, "Expected a 64 character hex public key")
+      .optional(),
+    relays: z.array(RelayUrlSchema).optional(),
+    editor: z.string().min(1, "Expected an editor command").optional(),
+    authRelays: z.array(RelayUrlSchema).optional(),
+    profiles: z.record(RelayProfileSchema).optional(),
+    profile: z.string().min(1, "Expected a profile name").optional(),
+    account: z
+      .string()
+      .regex(
+        /^[\w.-]+$/,
+        "Expected an account name of letters, numbers, _, - and .",
+      )
+      .optional(),
+    publish: PublishDefaultsSchema.optional(),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export interface ConfigCheck {
+  /** The migrated config, undefined when it has problems */
+  config?: ConfigFile;
+  /** Version of the config before migrating, 0 for configs without a version */
+  version: number;
+  /** Problems with the config, each starting with the path of the bad field */
+  issues: string[];
+}
+
+/** Format the path of a field, e.g. profiles.work.read[1] */
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) return "(root)";
+
+  return path
+    .map((part, i) =>
+      typeof part === "number" ? `[${part}]` : i === 0 ? part : `.${part}`,
+    )
+    .join("");
+}
+
+/**
+ * Migrate a parsed config to the current version and validate it
+ */
+export function checkConfig(raw: unknown): ConfigCheck {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw))
+    return { version: 0, issues: ["(root): Expected a JSON object"] };
+
+  const config = raw as Record<string, unknown>;
+  const version = typeof config.version === "number" ? config.version : 0;
+  if (version > CONFIG_VERSION)
+    return {
+      version,
+      issues: [
+        `version: Written by a newer version of nostr-code-snippets (config version ${version}, this version supports ${CONFIG_VERSION}). Please upgrade`,
+      ],
+    };
+
+  // Leave invalid versions unmigrated for the schema to report
+  let migrated: Record<string, unknown> = { ...config };
+  if (config.version === undefined || Number.isInteger(config.version)) {
+    for (let v = Math.max(0, version); v < CONFIG_VERSION; v++)
+      migrated = CONFIG_MIGRATIONS[v]!(migrated);
+    migrated.version = CONFIG_VERSION;
+  }
+
+  const result = ConfigFileSchema.safeParse(migrated);
+  if (!result.success)
+    return {
+      version,
+      issues: result.error.issues.map(
+        (issue) => `${formatPath(issue.path)}: ${issue.message}`,
+      ),
+    };
+
+  return { config: result.data, version, issues: [] };
+}
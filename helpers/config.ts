@@ -1,17 +1,94 @@
-import { readFileSync, existsSync } from "fs";
-import { join, resolve } from "path";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join, resolve } from "path";
+import {
+  CONFIG_VERSION,
+  checkConfig,
+  type ConfigCheck,
+} from "./config-schema.js";
 import { DEFAULT_RELAYS } from "./const";
 import { getLanguageFromExtension } from "./languages.js";
 
+export interface RelayProfile {
+  /** Relays to read snippets from */
+  read: string[];
+  /** Relays to publish snippets to */
+  write: string[];
+  /** NIP-50 relays to search */
+  search: string[];
+}
+
+export interface PublishDefaults {
+  /** License for snippets published without one */
+  license?: string;
+  /** Tags added to every snippet */
+  tags?: string[];
+  /** Repository URL for snippets published without one */
+  repo?: string;
+  /** Dependencies added to every snippet */
+  dependencies?: string[];
+  /** Extra tags for snippets in a language, keyed by language name */
+  languageTags?: Record<string, string[]>;
+}
+
 export interface NostrConfig {
+  /** Version of the config file format, used to migrate older files */
+  version?: number;
   pubkey?: string;
   relays: string[];
   editor?: string;
+  /** Relays to answer NIP-42 AUTH challenges from with the configured signer */
+  authRelays?: string[];
+  /** Named relay profiles that replace the relays above when selected */
+  profiles?: Record<string, RelayProfile>;
+  /** Name of the relay profile to use */
+  profile?: string;
+  /** Name of the keyring account to sign with */
+  account?: string;
+  /** Metadata added to published snippets unless overridden */
+  publish?: PublishDefaults;
+}
+
+/**
+ * One source of configuration values. Layers are merged in order, later layers
+ * override the values of earlier ones
+ */
+export interface ConfigLayer {
+  source: "default" | "global" | "project" | "env" | "flag";
+  /** Where the values come from, e.g. a file path or an environment variable */
+  location: string;
+  config: Partial<NostrConfig>;
 }
 
+/** Name of the project config file, looked up in the current and parent directories */
+export const PROJECT_CONFIG_FILE = ".nostr-snippets.json";
+
+/** Environment variable used to select a relay profile */
+export const PROFILE_ENV = "NOSTR_SNIPPETS_PROFILE";
+
+/** Environment variables that override config values */
+const CONFIG_ENV: Record<string, (value: string) => Partial<NostrConfig>> = {
+  NOSTR_SNIPPETS_PUBKEY: (value) => ({ pubkey: value }),
+  NOSTR_SNIPPETS_RELAYS: (value) => ({
+    relays: value
+      .split(",")
+      .map((relay) => relay.trim())
+      .filter(Boolean),
+  }),
+  NOSTR_SNIPPETS_EDITOR: (value) => ({ editor: value }),
+  [PROFILE_ENV]: (value) => ({ profile: value }),
+  NOSTR_SNIPPETS_ACCOUNT: (value) => ({ account: value }),
+};
+
 // Global config path - can be overridden by CLI option
 let globalConfigPath: string | null = null;
 
+// Selected relay profile - can be set by CLI option
+let globalProfile: string | null = null;
+
+// Selected account - can be set by CLI option
+let globalAccount: string | null = null;
+
 /**
  * Set the config path (used by CLI when --config option is provided)
  */
@@ -20,35 +97,269 @@ export function setConfigPath(path: string): void {
 }
 
 /**
- * Get the config path - either from CLI option or default location
+ * Get the path of the user-global config file
  */
-export function getConfigPath(): string {
-  return globalConfigPath || join(process.cwd(), ".nostr-snippets.json");
+export function getGlobalConfigPath(): string {
+  const configHome = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(configHome, "nostr-code-snippets", "config.json");
 }
 
-export function loadConfig(): NostrConfig {
-  const configPath = getConfigPath();
+/**
+ * Find the nearest project config file in the current or a parent directory
+ */
+export function findProjectConfig(from = process.cwd()): string | undefined {
+  let dir = resolve(from);
+  while (true) {
+    const path = join(dir, PROJECT_CONFIG_FILE);
+    if (existsSync(path)) return path;
 
-  if (existsSync(configPath)) {
-    try {
-      const configData = readFileSync(configPath, "utf-8");
-      return JSON.parse(configData);
-    } catch (error) {
-      console.warn("⚠️  Failed to load config file, using defaults");
-    }
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
   }
+}
+
+/**
+ * Get the config file that changes are saved to: the --config file, the nearest
+ * project file or the global file
+ */
+export function getConfigPath(): string {
+  return globalConfigPath || findProjectConfig() || getGlobalConfigPath();
+}
+
+/**
+ * Select a relay profile (used by CLI when --profile option is provided)
+ */
+export function setProfile(name: string): void {
+  globalProfile = name;
+}
+
+/**
+ * Select the account to sign with (used by CLI when --account option is provided)
+ */
+export function setAccount(name: string): void {
+  globalAccount = name;
+}
+
+/**
+ * Get the relay profile selected with --profile, NOSTR_SNIPPETS_PROFILE or the
+ * "profile" config key
+ * @returns undefined when no profile is selected
+ */
+export function getRelayProfile(
+  config: NostrConfig = loadConfig(),
+): (RelayProfile & { name: string }) | undefined {
+  const name = config.profile;
+  if (!name) return undefined;
+
+  const profile = config.profiles?.[name];
+  if (!profile)
+    throw new Error(
+      `Unknown relay profile: ${name}. Add it to "profiles" in ${getConfigPath()}`,
+    );
 
   return {
-    relays: DEFAULT_RELAYS,
+    name,
+    read: profile.read ?? [],
+    write: profile.write ?? [],
+    search: profile.search ?? [],
   };
 }
 
+/**
+ * Read a config file, migrate it to the current version and validate it
+ * @returns undefined when the file doesn't exist
+ */
+export function checkConfigFile(path: string): ConfigCheck | undefined {
+  if (!existsSync(path)) return undefined;
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    return {
+      version: 0,
+      issues: [
+        `(root): Invalid JSON: ${error instanceof Error ? error.message : error}`,
+      ],
+    };
+  }
+
+  return checkConfig(raw);
+}
+
+/** Read a config file, migrating it in memory without changing the file */
+function readConfigFile(path: string): Partial<NostrConfig> | undefined {
+  const check = checkConfigFile(path);
+  if (!check) return undefined;
+
+  if (!check.config)
+    throw new Error(
+      `Invalid config file ${path}:\n${check.issues.map((issue) => `   • ${issue}`).join("\n")}\nRun "nostr-code-snippets config validate" after fixing it`,
+    );
+
+  const { version, ...config } = check.config;
+  return config;
+}
+
+/**
+ * Write a config file migrated to the current version back to disk
+ * @returns The check of the file, undefined when the file doesn't exist
+ */
+export function migrateConfigFile(path: string): ConfigCheck | undefined {
+  const check = checkConfigFile(path);
+  if (check?.config && check.version < CONFIG_VERSION)
+    writeFileSync(path, JSON.stringify(check.config, null, 2));
+
+  return check;
+}
+
+/**
+ * Get the config files in the order they are applied: the global file, then the
+ * project file or the --config file. Files may not exist
+ */
+export function getConfigFiles(): {
+  source: "global" | "project";
+  path: string;
+}[] {
+  const globalPath = getGlobalConfigPath();
+  const projectPath = globalConfigPath || findProjectConfig();
+  if (!projectPath || projectPath === globalPath)
+    return [{ source: "global", path: globalPath }];
+
+  return [
+    { source: "global", path: globalPath },
+    { source: "project", path: projectPath },
+  ];
+}
+
+/**
+ * Get the config layers set by environment variables and CLI flags
+ */
+export function getOverrideLayers(): ConfigLayer[] {
+  const layers: ConfigLayer[] = [];
+  for (const [name, parse] of Object.entries(CONFIG_ENV)) {
+    const value = process.env[name]?.trim();
+    if (value)
+      layers.push({ source: "env", location: name, config: parse(value) });
+  }
+
+  if (globalProfile)
+    layers.push({
+      source: "flag",
+      location: "--profile",
+      config: { profile: globalProfile },
+    });
+
+  if (globalAccount)
+    layers.push({
+      source: "flag",
+      location: "--account",
+      config: { account: globalAccount },
+    });
+
+  return layers;
+}
+
+/**
+ * Get every config layer in the order they are applied: built-in defaults, the
+ * global file, the project file (or the --config file), environment variables
+ * and CLI flags
+ */
+export function getConfigLayers(): ConfigLayer[] {
+  const layers: ConfigLayer[] = [
+    {
+      source: "default",
+      location: "built-in defaults",
+      config: { relays: [...DEFAULT_RELAYS] },
+    },
+  ];
+
+  for (const file of getConfigFiles()) {
+    const config = readConfigFile(file.path);
+    if (config)
+      layers.push({ source: file.source, location: file.path, config });
+  }
+
+  return [...layers, ...getOverrideLayers()];
+}
+
+/**
+ * Merge config layers. Relay profiles and publish defaults are merged by key,
+ * other values replace earlier ones
+ */
+function mergeLayers(layers: ConfigLayer[]): Partial<NostrConfig> {
+  const config: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.config)) {
+      if (value === undefined) continue;
+      config[key] =
+        key === "profiles" || key === "publish"
+          ? { ...(config[key] as object), ...(value as object) }
+          : value;
+    }
+  }
+  return config as Partial<NostrConfig>;
+}
+
+export function loadConfig(): NostrConfig {
+  const config = mergeLayers(getConfigLayers());
+  return { ...config, relays: config.relays ?? [...DEFAULT_RELAYS] };
+}
+
+/**
+ * Get the layer each config value comes from
+ */
+export function getConfigSources(): Partial<
+  Record<keyof NostrConfig, ConfigLayer>
+> {
+  const sources: Partial<Record<keyof NostrConfig, ConfigLayer>> = {};
+  for (const layer of getConfigLayers()) {
+    for (const [key, value] of Object.entries(layer.config)) {
+      if (value !== undefined) sources[key as keyof NostrConfig] = layer;
+    }
+  }
+  return sources;
+}
+
+/**
+ * Save a config to the file returned by getConfigPath. Only values that are
+ * already in the file or differ from the layers below it are written, so
+ * inherited and environment values don't get copied into the file
+ */
 export function saveConfig(config: NostrConfig): void {
   const configPath = getConfigPath();
   try {
-    const configData = JSON.stringify(config, null, 2);
-    require("fs").writeFileSync(configPath, configData);
-    console.log("✅ Configuration saved successfully");
+    const layers = getConfigLayers();
+    const target = layers.findIndex((layer) => layer.location === configPath);
+    const existing = target === -1 ? {} : layers[target]!.config;
+    const inherited = mergeLayers(
+      target === -1
+        ? layers.filter((l) => l.source === "default" || l.source === "global")
+        : layers.slice(0, target),
+    );
+    const overrides = mergeLayers(
+      layers.filter((l) => l.source === "env" || l.source === "flag"),
+    );
+
+    const same = (a: unknown, b: unknown) =>
+      JSON.stringify(a) === JSON.stringify(b);
+    const output: Record<string, unknown> = { version: CONFIG_VERSION };
+    for (const [key, value] of Object.entries(config)) {
+      if (value === undefined || key === "version") continue;
+
+      const name = key as keyof NostrConfig;
+      // Keep the saved value of keys that are overridden by env vars or flags
+      if (name in overrides && same(value, overrides[name])) {
+        if (existing[name] !== undefined) output[key] = existing[name];
+      } else if (name in existing || !same(value, inherited[name])) {
+        output[key] = value;
+      }
+    }
+
+    mkdirSync(dirname(configPath), { recursive: true });
+    writeFileSync(configPath, JSON.stringify(output, null, 2));
+    console.log(`✅ Configuration saved successfully to ${configPath}`);
   } catch (error) {
     console.error("❌ Failed to save configuration:", error);
   }
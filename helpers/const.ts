@@ -12,3 +12,9 @@ export const DEFAULT_SEARCH_RELAYS = [
 ];
 
 export const DEFAULT_SIGNER_RELAY = "wss://relay.nsec.app";
+
+/** How long to wait for a relay to accept a published event */
+export const PUBLISH_TIMEOUT = 10_000;
+
+/** How many times to retry publishing to a relay that failed to respond */
+export const PUBLISH_RETRIES = 2;
@@ -0,0 +1,100 @@
+import { mapEventsToStore, simpleTimeout } from "applesauce-core";
+import { kinds, type Filter, type NostrEvent } from "nostr-tools";
+import { catchError, EMPTY, lastValueFrom, toArray } from "rxjs";
+import { getCachedDeletions } from "./cache.js";
+import { logger } from "./debug.js";
+import { eventStore, getReadRelays, pool } from "./nostr.js";
+import { publishEvent, type RelayPublishResult } from "./publish.js";
+import { getSigner } from "./signer.js";
+import { getPublicKey } from "./user.js";
+
+const log = logger.extend("delete");
+
+export interface DeletionResult {
+  deletionId: string;
+  deletedIds: string[];
+  relays: RelayPublishResult[];
+}
+
+/**
+ * Sign and publish a NIP-09 deletion request for the users code snippets
+ */
+export async function deleteSnippets(
+  events: NostrEvent[],
+  reason?: string,
+): Promise<DeletionResult> {
+  const signer = await getSigner();
+  const pubkey = await getPublicKey();
+
+  if (!pubkey) {
+    throw new Error(
+      "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
+    );
+  }
+
+  // Relays will ignore deletion requests for other users events
+  const foreign = events.find((event) => event.pubkey !== pubkey);
+  if (foreign)
+    throw new Error(`Snippet ${foreign.id} was not published by you`);
+
+  const draft = {
+    kind: kinds.EventDeletion,
+    created_at: Math.floor(Date.now() / 1000),
+    content: reason || "",
+    tags: [...events.map((event) => ["e", event.id]), ["k", "1337"]],
+    pubkey,
+  };
+
+  const deletion = await signer.signEvent(draft);
+  log(`Deletion request signed with ID: ${deletion.id}`);
+
+  // Send to the same relays the snippets were published to. Publishing also adds
+  // the request to the event store, which removes the snippets from the local cache
+  const report = await publishEvent(deletion);
+
+  return {
+    deletionId: deletion.id,
+    deletedIds: events.map((event) => event.id),
+    relays: report.relays,
+  };
+}
+
+/**
+ * Remove snippets that have deletion requests from their authors
+ * @param events - The snippets to check
+ * @param checkRelays - Whether to ask relays for deletion requests or only use the local cache
+ */
+export async function filterDeletedSnippets(
+  events: NostrEvent[],
+  checkRelays = true,
+): Promise<NostrEvent[]> {
+  if (events.length === 0) return events;
+
+  if (checkRelays) {
+    const filter: Filter = {
+      kinds: [kinds.EventDeletion],
+      authors: Array.from(new Set(events.map((event) => event.pubkey))),
+      "#e": events.map((event) => event.id),
+    };
+
+    // Deletion requests are saved to the local cache as they pass through the event store
+    const readRelays = await getReadRelays();
+    await lastValueFrom(
+      pool.request(readRelays, filter).pipe(
+        mapEventsToStore(eventStore),
+        simpleTimeout(10_000),
+        toArray(),
+        catchError((error) => {
+          log(`Failed to load deletion requests: ${error}`);
+          return EMPTY;
+        }),
+      ),
+      { defaultValue: [] },
+    );
+  }
+
+  const deleted = getCachedDeletions(events);
+  if (deleted.size > 0) log(`Hiding ${deleted.size} deleted snippets`);
+
+  return events.filter((event) => !deleted.has(event.id));
+}
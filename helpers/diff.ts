@@ -0,0 +1,142 @@
+/** Number of unchanged lines shown around each change */
+const DIFF_CONTEXT = 3;
+
+/** Skip the line by line comparison for files that would need a huge table */
+const MAX_DIFF_CELLS = 4_000_000;
+
+interface DiffLine {
+  type: " " | "-" | "+";
+  line: string;
+}
+
+/**
+ * Compare two lists of lines using the longest common subsequence
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Unchanged lines at the start and end don't need to be compared
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix])
+    prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  )
+    suffix++;
+
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  const middle: DiffLine[] = [];
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    // Too large to compare, replace the whole changed section
+    middle.push(...oldLines.map((line) => ({ type: "-" as const, line })));
+    middle.push(...newLines.map((line) => ({ type: "+" as const, line })));
+  } else {
+    // lengths[i * (m + 1) + j] is the LCS length of oldLines[i:] and newLines[j:]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          oldLines[i] === newLines[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1]! + 1
+            : Math.max(
+                lengths[(i + 1) * (m + 1) + j]!,
+                lengths[i * (m + 1) + j + 1]!,
+              );
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldLines[i] === newLines[j]) {
+        middle.push({ type: " ", line: oldLines[i++]! });
+        j++;
+      } else if (
+        j >= m ||
+        (i < n &&
+          lengths[(i + 1) * (m + 1) + j]! >= lengths[i * (m + 1) + j + 1]!)
+      ) {
+        middle.push({ type: "-", line: oldLines[i++]! });
+      } else {
+        middle.push({ type: "+", line: newLines[j++]! });
+      }
+    }
+  }
+
+  return [
+    ...a.slice(0, prefix).map((line) => ({ type: " " as const, line })),
+    ...middle,
+    ...a.slice(a.length - suffix).map((line) => ({ type: " " as const, line })),
+  ];
+}
+
+/**
+ * Split a text into lines. Empty texts have no lines, and a last line without a
+ * newline carries the marker that unified diffs print after it
+ */
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else lines[lines.length - 1] += "\n\\ No newline at end of file";
+
+  return lines;
+}
+
+/**
+ * Create a unified diff between two texts
+ * @returns The diff, or an empty string when the texts are the same
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+): string {
+  if (oldText === newText) return "";
+
+  const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Group changes that are close together into hunks
+  const hunks: [number, number][] = [];
+  lines.forEach((line, index) => {
+    if (line.type === " ") return;
+
+    const start = Math.max(0, index - DIFF_CONTEXT);
+    const end = Math.min(lines.length, index + DIFF_CONTEXT + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  });
+
+  // Line numbers in the old and new text before each diff line
+  const positions: [number, number][] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const line of lines) {
+    positions.push([oldLine, newLine]);
+    if (line.type !== "+") oldLine++;
+    if (line.type !== "-") newLine++;
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [start, end] of hunks) {
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    const [oldStart, newStart] = positions[start]!;
+
+    output.push(
+      `@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`,
+      ...hunk.map((line) => `${line.type}${line.line}`),
+    );
+  }
+
+  return output.join("\n");
+}
@@ -0,0 +1,156 @@
+import {
+  mapEventsToStore,
+  mapEventsToTimeline,
+  simpleTimeout,
+} from "applesauce-core";
+import {
+  createFilterMap,
+  groupPubkeysByRelay,
+  selectOptimalRelays,
+  setFallbackRelays,
+} from "applesauce-core/helpers";
+import { type Filter, type NostrEvent } from "nostr-tools";
+import type { ProfilePointer } from "nostr-tools/nip19";
+import { catchError, EMPTY, lastValueFrom, merge, startWith } from "rxjs";
+import { queryCachedEvents } from "./cache.js";
+import { logger } from "./debug.js";
+import { filterDeletedSnippets } from "./delete.js";
+import { normalizeLanguage } from "./languages.js";
+import type { SnippetFilters } from "./list.js";
+import { eventStore, getReadRelays, pool } from "./nostr.js";
+import { applyPageFilter, takePage } from "./pagination.js";
+import { collapseSnippetVersions } from "./snippet.js";
+import { getUserContacts, getUserMailboxes } from "./user.js";
+import { filterSupersededSnippets } from "./versions.js";
+
+const log = logger.extend("feed");
+
+/** Maximum number of relays to connect to when loading the feed */
+const MAX_FEED_RELAYS = 20;
+
+/** Only read from this many outboxes of each followed author */
+const MAX_RELAYS_PER_AUTHOR = 3;
+
+export interface FeedResult {
+  events: NostrEvent[];
+  /** Number of people the user follows */
+  follows: number;
+  /** Cursor for the next page, undefined when there are no more snippets */
+  cursor?: string;
+}
+
+/**
+ * Pick the outbox relays to read the snippets of the followed authors from
+ */
+async function getFollowOutboxes(
+  contacts: ProfilePointer[],
+): Promise<ProfilePointer[]> {
+  const withOutboxes = await Promise.all(
+    contacts.map(async (contact) => {
+      const outboxes = await getUserMailboxes(contact)
+        .then((m) => m.outboxes)
+        .catch(() => contact.relays ?? []);
+      return { pubkey: contact.pubkey, relays: outboxes };
+    }),
+  );
+
+  // Read from the users own relays for authors without a NIP-65 relay list
+  const fallback = setFallbackRelays(withOutboxes, await getReadRelays());
+
+  return selectOptimalRelays(fallback, {
+    maxConnections: MAX_FEED_RELAYS,
+    maxRelaysPerUser: MAX_RELAYS_PER_AUTHOR,
+  });
+}
+
+/**
+ * Load the latest code snippets from the people a user follows
+ */
+export async function fetchFollowFeed(
+  pubkey: string,
+  filters: SnippetFilters = {},
+): Promise<FeedResult> {
+  const limit = filters.limit || 20;
+  const language = filters.language
+    ? normalizeLanguage(filters.language) || filters.language
+    : undefined;
+
+  log(`🔍 Loading contact list for ${pubkey}`);
+  const contacts = await getUserContacts(pubkey).catch((error) => {
+    log(`Failed to load contact list: ${error}`);
+    throw new Error(
+      "No contact list found. Follow some people with a Nostr client first",
+    );
+  });
+  if (contacts.length === 0) return { events: [], follows: 0 };
+
+  const authors = contacts.map((contact) => contact.pubkey);
+  log(`   Following ${authors.length} authors`);
+
+  const filter: Omit<Filter, "authors"> = applyPageFilter(
+    { kinds: [1337], limit },
+    filters,
+  );
+  if (language) filter["#l"] = [language];
+  if (filters.tags && filters.tags.length > 0)
+    filter["#t"] = filters.tags.map((tag) => tag.toLowerCase());
+
+  // Read from the local cache first so the feed is available offline
+  const cachedEvents = queryCachedEvents({ ...filter, authors });
+  log(`   Found ${cachedEvents.length} snippets in local cache`);
+
+  // Ask each relay only for the authors that publish to it
+  const outboxes = await getFollowOutboxes(contacts);
+  const filterMap = createFilterMap(groupPubkeysByRelay(outboxes), filter);
+  log(`   Reading from ${Object.keys(filterMap).length} outbox relays`);
+
+  const relayEvents = await lastValueFrom(
+    merge(
+      ...Object.entries(filterMap).map(([relay, relayFilter]) =>
+        pool.request([relay], relayFilter).pipe(
+          // Skip relays that fail instead of failing the whole feed
+          catchError((error) => {
+            log(`   Failed to load snippets from ${relay}: ${error}`);
+            return EMPTY;
+          }),
+        ),
+      ),
+    ).pipe(
+      // Deduplicate events
+      mapEventsToStore(eventStore),
+      // Map to timeline
+      mapEventsToTimeline(),
+      // Timeout after 10 seconds
+      simpleTimeout(10_000),
+      // Start with an empty array if no events are found
+      startWith([]),
+      // Fall back to the cached events if the relays are unreachable
+      catchError((error) => {
+        log(`   Failed to load feed from relays: ${error}`);
+        return EMPTY;
+      }),
+    ),
+  );
+
+  // Merge cached and relay events and take the newest page
+  const seen = new Set<string>();
+  const page = takePage(
+    [...relayEvents, ...cachedEvents].filter((e) => {
+      if (seen.has(e.id)) return false;
+      seen.add(e.id);
+      return true;
+    }),
+    limit,
+    filters,
+  );
+
+  // Hide snippets the author has asked to delete
+  let events = await filterDeletedSnippets(page.events);
+
+  // Only show the latest version of edited snippets, including versions on earlier pages
+  if (!filters.history)
+    events = await filterSupersededSnippets(collapseSnippetVersions(events));
+
+  log(`   Found ${events.length} snippets in the feed`);
+  return { events, follows: authors.length, cursor: page.cursor };
+}
@@ -0,0 +1,230 @@
+import { decodeNbunksec, encodeNbunksec } from "@sandwichfarm/encoded-entities";
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  writeFileSync,
+} from "fs";
+import inquirer from "inquirer";
+import { getPublicKey } from "nostr-tools";
+import { decode, nsecEncode } from "nostr-tools/nip19";
+import * as nip44 from "nostr-tools/nip44";
+import { decrypt, encrypt } from "nostr-tools/nip49";
+import { bytesToHex, hexToBytes } from "nostr-tools/utils";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { logger } from "./debug.js";
+
+const log = logger.extend("keyfile");
+
+/** Environment variable with the passphrase that unlocks the key file */
+export const SIGNER_PASSWORD_ENV = "SIGNER_PASSWORD";
+
+interface KeyFileEntry {
+  type: "nsec" | "nbunksec";
+  /** NIP-49 encrypted private key, the local key of the bunker connection for nbunksec */
+  ncryptsec: string;
+  /** Public key of the signer so accounts can be listed without the passphrase */
+  pubkey: string;
+  /** NIP-44 encrypted relays and secret of the bunker connection for nbunksec signers */
+  bunker?: string;
+  /** Plaintext bunker connection details written by older versions */
+  relays?: string[];
+  secret?: string;
+}
+
+interface BunkerConnection {
+  relays: string[];
+  secret?: string;
+}
+
+/** Get the key that encrypts the bunker connection, derived from the local key of the connection */
+function getBunkerKey(localKey: Uint8Array): Uint8Array {
+  return nip44.getConversationKey(localKey, getPublicKey(localKey));
+}
+
+interface KeyFile {
+  version: 1;
+  /** Encrypted signers keyed like the keyring entries */
+  signers: Record<string, KeyFileEntry>;
+}
+
+// Passphrase entered or read from the environment during this run
+let passphrase: string | null = null;
+
+/**
+ * Get the path to the encrypted key file used when there is no system keyring
+ */
+export function getKeyFilePath(): string {
+  const dataHome =
+    process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return join(dataHome, "nostr-code-snippets", "signers.json");
+}
+
+function readKeyFile(): KeyFile {
+  const path = getKeyFilePath();
+  if (!existsSync(path)) return { version: 1, signers: {} };
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read key file ${path}: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+function writeKeyFile(file: KeyFile): void {
+  const path = getKeyFilePath();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(file, null, 2), { mode: 0o600 });
+  // The mode is only applied when the file is created
+  chmodSync(path, 0o600);
+}
+
+/**
+ * Get the passphrase from SIGNER_PASSWORD or by prompting for it
+ * @param create - Ask for the passphrase twice since it protects a new key file
+ */
+async function getPassphrase(create = false): Promise<string> {
+  if (passphrase) return passphrase;
+
+  const fromEnv = process.env[SIGNER_PASSWORD_ENV];
+  if (fromEnv) return fromEnv;
+
+  if (!process.stdin.isTTY)
+    throw new Error(
+      `The signer is stored in an encrypted key file. Set ${SIGNER_PASSWORD_ENV} to unlock it`,
+    );
+
+  const { value } = await inquirer.prompt([
+    {
+      type: "password",
+      name: "value",
+      message: create
+        ? "Choose a passphrase to encrypt your signer:"
+        : "Passphrase to unlock your signer:",
+      validate: (input: string) =>
+        input.length > 0 || "A passphrase is required",
+    },
+  ]);
+
+  if (create) {
+    const { repeated } = await inquirer.prompt([
+      { type: "password", name: "repeated", message: "Repeat the passphrase:" },
+    ]);
+    if (repeated !== value) throw new Error("The passphrases don't match");
+  }
+
+  return value;
+}
+
+/** Decrypt a NIP-49 ncryptsec, with a readable error for a wrong passphrase */
+function decryptKey(ncryptsec: string, password: string): Uint8Array {
+  try {
+    return decrypt(ncryptsec, password);
+  } catch {
+    throw new Error(`Wrong passphrase for the key file ${getKeyFilePath()}`);
+  }
+}
+
+/**
+ * Encrypt a signer (nsec or nbunksec) with NIP-49 and store it in the key file
+ */
+export async function saveToKeyFile(
+  key: string,
+  signerValue: string,
+): Promise<void> {
+  const file = readKeyFile();
+  const existing = Object.values(file.signers)[0];
+  const password = await getPassphrase(!existing);
+
+  // Keep a single passphrase for every signer in the file
+  if (existing) decryptKey(existing.ncryptsec, password);
+
+  let entry: KeyFileEntry;
+  if (signerValue.startsWith("nbunksec")) {
+    const bunker = decodeNbunksec(signerValue);
+    const localKey = hexToBytes(bunker.local_key);
+    const connection: BunkerConnection = {
+      relays: bunker.relays,
+      secret: bunker.secret,
+    };
+    entry = {
+      type: "nbunksec",
+      ncryptsec: encrypt(localKey, password),
+      pubkey: bunker.pubkey,
+      // The secret lets anyone use the bunker, so it is encrypted along with the local key
+      bunker: nip44.encrypt(JSON.stringify(connection), getBunkerKey(localKey)),
+    };
+  } else {
+    const decoded = decode(signerValue);
+    if (decoded.type !== "nsec") throw new Error("Expected an nsec");
+    entry = {
+      type: "nsec",
+      ncryptsec: encrypt(decoded.data, password),
+      pubkey: getPublicKey(decoded.data),
+    };
+  }
+
+  log(`Storing encrypted signer for ${key}`);
+  file.signers[key] = entry;
+  writeKeyFile(file);
+  passphrase = password;
+}
+
+/**
+ * Decrypt a signer from the key file, asking for the passphrase if needed
+ * @returns null when there is no signer stored for the key
+ */
+export async function loadFromKeyFile(key: string): Promise<string | null> {
+  const entry = readKeyFile().signers[key];
+  if (!entry) return null;
+
+  log(`Unlocking encrypted signer for ${key}`);
+  const password = await getPassphrase();
+  const secretKey = decryptKey(entry.ncryptsec, password);
+  passphrase = password;
+
+  if (entry.type === "nsec") return nsecEncode(secretKey);
+
+  const connection: BunkerConnection = entry.bunker
+    ? JSON.parse(nip44.decrypt(entry.bunker, getBunkerKey(secretKey)))
+    : { relays: entry.relays ?? [], secret: entry.secret };
+
+  const nbunksec = encodeNbunksec({
+    pubkey: entry.pubkey,
+    local_key: bytesToHex(secretKey),
+    relays: connection.relays,
+    secret: connection.secret,
+  });
+
+  // Encrypt the bunker connection of signers saved by older versions
+  if (!entry.bunker) await saveToKeyFile(key, nbunksec);
+
+  return nbunksec;
+}
+
+/**
+ * Remove a signer from the key file
+ * @returns false if there was no signer stored for the key
+ */
+export function deleteFromKeyFile(key: string): boolean {
+  const file = readKeyFile();
+  if (!file.signers[key]) return false;
+
+  delete file.signers[key];
+  writeKeyFile(file);
+  return true;
+}
+
+/**
+ * List the signers in the key file with their public keys
+ */
+export function listKeyFile(): { key: string; pubkey: string }[] {
+  return Object.entries(readKeyFile().signers).map(([key, entry]) => ({
+    key,
+    pubkey: entry.pubkey,
+  }));
+}
@@ -5,10 +5,13 @@ import {
 } from "applesauce-core";
 import { type Filter, type NostrEvent } from "nostr-tools";
 import { neventEncode } from "nostr-tools/nip19";
-import { lastValueFrom, startWith } from "rxjs";
+import { catchError, EMPTY, lastValueFrom, startWith } from "rxjs";
+import { queryCachedEvents } from "./cache.js";
 import { logger } from "./debug.js";
-import { eventStore, getReadRelays, pool } from "./nostr.js";
+import { filterDeletedSnippets } from "./delete.js";
+import { eventStore, getAuthorRelays, pool } from "./nostr.js";
 import {
+  collapseSnippetVersions,
   getSnippetCreatedAt,
   getSnippetLanguage,
   getSnippetTags,
@@ -16,24 +19,30 @@ import {
   getSnippetContent,
 } from "./snippet.js";
 import { formatSnippetPreview } from "./syntax-highlight.js";
-import { getPublicKey } from "./user.js";
+import { filterSupersededSnippets } from "./versions.js";
+import { getUserDisplayName } from "./user.js";
 import { normalizeLanguage } from "./languages.js";
+import { applyPageFilter, takePage, type PageOptions } from "./pagination.js";
 
 const log = logger.extend("list");
 
-export interface SnippetFilters {
+export interface SnippetFilters extends PageOptions {
   limit?: number;
   language?: string;
   tags?: string[];
+  /** Include every version of edited snippets instead of only the latest */
+  history?: boolean;
 }
 
 export interface SnippetListResult {
   events: NostrEvent[];
   total: number;
+  /** Cursor for the next page, undefined when there are no more snippets */
+  cursor?: string;
 }
 
 /**
- * Fetch user's published code snippets from Nostr relays
+ * Fetch an author's published code snippets from Nostr relays
  */
 export async function fetchUserSnippets(
   userPubkey: string,
@@ -43,25 +52,29 @@ export async function fetchUserSnippets(
   if (filters.language)
     filters.language = normalizeLanguage(filters.language) || filters.language;
 
-  log("🔍 Searching your snippets...");
+  log("🔍 Searching snippets...");
   if (filters.language) log(`   Language: ${filters.language}`);
   if (filters.tags) log(`   Tags: ${filters.tags.join(", ")}`);
 
   try {
     log(`   Searching for snippets from pubkey: ${userPubkey}`);
 
-    // Get the optimal set of relays to read from (includes outbox relays)
-    const readRelays = await getReadRelays();
+    // Read from the authors NIP-65 outboxes as well as the users relays
+    const readRelays = await getAuthorRelays(userPubkey);
     log(
       `   Reading from ${readRelays.length} relays: ${readRelays.join(", ")}`,
     );
 
     // Query for kind 1337 events from the user
-    const nostrFilter: Filter = {
-      kinds: [1337], // Code snippet kind from NIP-C0
-      authors: [userPubkey],
-      limit: filters.limit || 10,
-    };
+    const limit = filters.limit || 10;
+    const nostrFilter: Filter = applyPageFilter(
+      {
+        kinds: [1337], // Code snippet kind from NIP-C0
+        authors: [userPubkey],
+        limit,
+      },
+      filters,
+    );
 
     if (filters.language) nostrFilter["#l"] = [filters.language];
     if (filters.tags)
@@ -69,8 +82,12 @@ export async function fetchUserSnippets(
 
     log(`   Querying with filter: ${JSON.stringify(nostrFilter)}`);
 
-    // Get events from relays
-    const events = await lastValueFrom(
+    // Read from the local cache first so results are available offline
+    const cachedEvents = queryCachedEvents(nostrFilter);
+    log(`   Found ${cachedEvents.length} snippets in local cache`);
+
+    // Fill in from relays
+    const relayEvents = await lastValueFrom(
       pool.request(readRelays, nostrFilter).pipe(
         // Deduplicate events
         mapEventsToStore(eventStore),
@@ -80,13 +97,38 @@ export async function fetchUserSnippets(
         simpleTimeout(10_000),
         // Start with an empty array if no events are found
         startWith([]),
+        // Fall back to the cached events if the relays are unreachable
+        catchError((error) => {
+          log(`   Failed to fetch snippets from relays: ${error}`);
+          return EMPTY;
+        }),
       ),
     );
 
+    // Merge cached and relay events and take the newest page
+    const seen = new Set<string>();
+    const page = takePage(
+      [...relayEvents, ...cachedEvents].filter((e) => {
+        if (seen.has(e.id)) return false;
+        seen.add(e.id);
+        return true;
+      }),
+      limit,
+      filters,
+    );
+
+    // Hide snippets the author has asked to delete
+    let events = await filterDeletedSnippets(page.events);
+
+    // Only show the latest version of edited snippets, including versions on earlier pages
+    if (!filters.history)
+      events = await filterSupersededSnippets(collapseSnippetVersions(events));
+
     log(`   Found ${events.length} snippets`);
     return {
       events,
       total: events.length,
+      cursor: page.cursor,
     };
   } catch (error) {
     log(`   Error fetching snippets: ${error}`);
@@ -94,6 +136,18 @@ export async function fetchUserSnippets(
   }
 }
 
+/**
+ * Load the profile names of the authors of a list of snippets
+ */
+export async function getAuthorNames(
+  events: NostrEvent[],
+): Promise<Map<string, string>> {
+  const pubkeys = Array.from(new Set(events.map((event) => event.pubkey)));
+  const names = await Promise.all(pubkeys.map(getUserDisplayName));
+
+  return new Map(pubkeys.map((pubkey, index) => [pubkey, names[index]!]));
+}
+
 /**
  * Create a clickable terminal link using ANSI escape sequences
  */
@@ -103,32 +157,45 @@ export function createClickableLink(url: string, text: string): string {
 
 /**
  * Display snippets in a formatted table
+ * @param authorNames - Profile names of the authors, adds an author column when provided
  */
-export function displaySnippetsTable(events: NostrEvent[]): string {
+export function displaySnippetsTable(
+  events: NostrEvent[],
+  authorNames?: Map<string, string>,
+): string {
   const maxTitleLength = 30;
   const maxLanguageLength = 12;
+  const maxAuthorLength = 14;
+
+  // Build a border line, with an extra cell for the author column
+  const border = (left: string, middle: string, right: string) =>
+    left +
+    "────────" +
+    middle +
+    "─".repeat(maxTitleLength + 2) +
+    middle +
+    "─".repeat(maxLanguageLength + 2) +
+    middle +
+    (authorNames ? "─".repeat(maxAuthorLength + 2) + middle : "") +
+    "─────────────" +
+    middle +
+    "──────────────" +
+    right +
+    "\n";
 
   let output = "";
 
   // Header
-  output +=
-    "\n┌────────┬─" +
-    "─".repeat(maxTitleLength) +
-    "─┬─" +
-    "─".repeat(maxLanguageLength) +
-    "─┬─────────────┬──────────────┐\n";
+  output += "\n" + border("┌", "┬", "┐");
   output +=
     "│ ID     │ " +
     "Title".padEnd(maxTitleLength) +
     " │ " +
     "Language".padEnd(maxLanguageLength) +
-    " │ Tags        │ Created      │\n";
-  output +=
-    "├────────┼─" +
-    "─".repeat(maxTitleLength) +
-    "─┼─" +
-    "─".repeat(maxLanguageLength) +
-    "─┼─────────────┼──────────────┤\n";
+    " │ " +
+    (authorNames ? "Author".padEnd(maxAuthorLength) + " │ " : "") +
+    "Tags        │ Created      │\n";
+  output += border("├", "┼", "┤");
 
   // Rows
   events.forEach((event) => {
@@ -147,6 +214,11 @@ export function displaySnippetsTable(events: NostrEvent[]): string {
     const language = (getSnippetLanguage(event) || "Unknown")
       .substring(0, maxLanguageLength)
       .padEnd(maxLanguageLength);
+    const author = authorNames
+      ? (authorNames.get(event.pubkey) || event.pubkey)
+          .substring(0, maxAuthorLength)
+          .padEnd(maxAuthorLength) + " │ "
+      : "";
     const tags = getSnippetTags(event)
       .slice(0, 2)
       .join(",")
@@ -154,15 +226,10 @@ export function displaySnippetsTable(events: NostrEvent[]): string {
       .padEnd(11);
     const created = getSnippetCreatedAt(event).toLocaleDateString().padEnd(12);
 
-    output += `│ ${clickableId} │ ${title} │ ${language} │ ${tags} │ ${created} │\n`;
+    output += `│ ${clickableId} │ ${title} │ ${language} │ ${author}${tags} │ ${created} │\n`;
   });
 
-  output +=
-    "└────────┴─" +
-    "─".repeat(maxTitleLength) +
-    "─┴─" +
-    "─".repeat(maxLanguageLength) +
-    "─┴─────────────┴──────────────┘\n";
+  output += border("└", "┴", "┘");
 
   return output;
 }
@@ -176,8 +243,12 @@ export function formatSnippetsAsJson(events: NostrEvent[]): string {
 
 /**
  * Format snippets for detailed display
+ * @param authorNames - Profile names of the authors to show with each snippet
  */
-export function formatSnippetsDetailed(events: NostrEvent[]): string {
+export function formatSnippetsDetailed(
+  events: NostrEvent[],
+  authorNames?: Map<string, string>,
+): string {
   let output = "";
   events.forEach((event, index) => {
     // Import formatSnippetForDisplay from utils to avoid circular dependency
@@ -196,6 +267,9 @@ export function formatSnippetsDetailed(events: NostrEvent[]): string {
       `🔗 ${clickableLink}`,
     ];
 
+    const author = authorNames?.get(event.pubkey);
+    if (author) lines.push(`👤 Author: ${author}`);
+
     const language = getSnippetLanguage(event);
     if (language) lines.push(`💻 Language: ${language}`);
 
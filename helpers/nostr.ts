@@ -1,12 +1,21 @@
 import { EventStore } from "applesauce-core";
-import { mergeRelaySets } from "applesauce-core/helpers";
+import {
+  isFromCache,
+  mergeRelaySets,
+  normalizeURL,
+} from "applesauce-core/helpers";
 import { createEventLoaderForStore } from "applesauce-loaders/loaders";
 import { RelayPool } from "applesauce-relay";
 import { NostrConnectSigner } from "applesauce-signers";
-import { loadConfig } from "./config";
+import { kinds } from "nostr-tools";
+import { filter, merge } from "rxjs";
+import { cacheRequest, saveEventsToCache } from "./cache.js";
+import { getRelayProfile, loadConfig } from "./config";
 import { logger } from "./debug.js";
 import { registerShutdownHandler } from "./shutdown.js";
-import { getPublicKey, getUserMailboxes } from "./user";
+import { getSigner } from "./signer.js";
+import { DEFAULT_RELAYS, DEFAULT_SEARCH_RELAYS } from "./const.js";
+import { getPublicKey, getUserMailboxes, getUserSearchRelays } from "./user";
 
 const log = logger.extend("nostr");
 
@@ -17,10 +26,162 @@ export const pool = new RelayPool({
 
 NostrConnectSigner.pool = pool;
 
+export interface RelayAuthReport {
+  /** Whether the relay rejected a request or event until the client authenticated */
+  required: boolean;
+  /** Whether NIP-42 authentication is enabled for the relay in the config */
+  enabled: boolean;
+  /** Whether the relay accepted the authentication, undefined if it was not attempted */
+  success?: boolean;
+  message?: string;
+}
+
+/** Relays that responded with auth-required */
+const authRequired = new Set<string>();
+
+/** Results of the last authentication with each relay */
+const authResults = new Map<string, { success: boolean; message?: string }>();
+
+/** Pending authentications by relay, challenge and account */
+const pendingAuth = new Map<string, Promise<boolean>>();
+
+/** Accounts that authenticated with each relay, "" for the default signer */
+const authenticatedAccounts = new Map<string, Set<string>>();
+
+/** Check if the user opted in to NIP-42 authentication with a relay */
+export function isAuthEnabled(relay: string): boolean {
+  return mergeRelaySets(loadConfig().authRelays).includes(normalizeURL(relay));
+}
+
+/**
+ * Answer the AUTH challenge of a relay with the configured signer, if the user opted in
+ * @param account - Name of the account to authenticate as, defaults to the selected account
+ * @returns Whether the client is authenticated with the relay
+ */
+export async function authenticateRelay(
+  url: string,
+  account = loadConfig().account,
+): Promise<boolean> {
+  const relay = pool.relay(url);
+  const name = account ?? "";
+  if (relay.authenticated && authenticatedAccounts.get(relay.url)?.has(name))
+    return true;
+  if (!relay.challenge || !isAuthEnabled(relay.url)) return false;
+
+  const key = `${relay.url} ${relay.challenge} ${name}`;
+  let pending = pendingAuth.get(key);
+  if (!pending) {
+    log(`Authenticating with ${relay.url}${account ? ` as ${account}` : ""}`);
+    pending = getSigner(account)
+      .then((signer) => relay.authenticate(signer))
+      .then((response) => {
+        log(
+          `Authentication with ${relay.url} ${response.ok ? "succeeded" : `failed: ${response.message}`}`,
+        );
+        authResults.set(relay.url, {
+          success: response.ok,
+          message: response.message,
+        });
+        if (response.ok) {
+          const accounts = authenticatedAccounts.get(relay.url) ?? new Set();
+          authenticatedAccounts.set(relay.url, accounts.add(name));
+        }
+        return response.ok;
+      })
+      .catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        log(`Failed to authenticate with ${relay.url}: ${message}`);
+        authResults.set(relay.url, { success: false, message });
+        return false;
+      });
+    pendingAuth.set(key, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Mark a relay as requiring authentication, used when an event is rejected with auth-required
+ */
+export function markAuthRequired(url: string): void {
+  authRequired.add(normalizeURL(url));
+}
+
+/**
+ * Get whether a relay needed authentication and how it went, undefined if authentication never came up
+ */
+export function getRelayAuthReport(url: string): RelayAuthReport | undefined {
+  const relay = normalizeURL(url);
+  const result = authResults.get(relay);
+  if (!authRequired.has(relay) && !result) return undefined;
+
+  return {
+    required: authRequired.has(relay),
+    enabled: isAuthEnabled(relay),
+    ...result,
+  };
+}
+
+/**
+ * Describe a relay authentication report for display
+ */
+export function describeRelayAuth(report: RelayAuthReport): string {
+  if (report.success) return "authenticated";
+  if (report.success === false)
+    return `authentication failed${report.message ? `: ${report.message}` : ""}`;
+  if (!report.enabled)
+    return "authentication required but not enabled for this relay";
+  return "authentication required";
+}
+
+// Answer AUTH challenges as soon as relays send them and remember which relays require it
+const watchedRelays = new Set<string>();
+pool.relays$.subscribe((relays) => {
+  for (const relay of relays.values()) {
+    if (watchedRelays.has(relay.url)) continue;
+    watchedRelays.add(relay.url);
+
+    relay.challenge$.pipe(filter((challenge) => !!challenge)).subscribe(() =>
+      // Loading an invalid config throws, which must not take down long running commands
+      authenticateRelay(relay.url).catch((error) =>
+        log(`Failed to authenticate with ${relay.url}: ${error}`),
+      ),
+    );
+    merge(relay.authRequiredForRead$, relay.authRequiredForPublish$)
+      .pipe(filter((required) => required))
+      .subscribe(() => authRequired.add(relay.url));
+  }
+});
+
+// Persist every code snippet and deletion request added to the event store in the local cache
+eventStore.insert$
+  .pipe(
+    filter(
+      (event) =>
+        (event.kind === 1337 || event.kind === kinds.EventDeletion) &&
+        !isFromCache(event),
+    ),
+  )
+  .subscribe((event) => saveEventsToCache([event]));
+
+/**
+ * Get the configured relays for the event loader. Falls back to the defaults so
+ * an invalid config file is reported by the command instead of when importing
+ */
+function getLoaderRelays(): string[] {
+  try {
+    return loadConfig().relays;
+  } catch {
+    return DEFAULT_RELAYS;
+  }
+}
+
 // Attach loaders to event store
+const loaderRelays = getLoaderRelays();
 export const eventLoader = createEventLoaderForStore(eventStore, pool, {
-  lookupRelays: loadConfig().relays,
-  extraRelays: loadConfig().relays,
+  cacheRequest,
+  lookupRelays: loaderRelays,
+  extraRelays: loaderRelays,
 });
 export const addressLoader = eventLoader;
 
@@ -39,6 +200,11 @@ registerShutdownHandler("nostr-pool", async () => {
 /** Get the list of relays to read from */
 export async function getReadRelays() {
   const config = loadConfig();
+
+  // Profiles list every relay to use
+  const profile = getRelayProfile(config);
+  if (profile) return profile.read;
+
   const user = await getPublicKey();
   if (!user) return config.relays;
 
@@ -49,10 +215,26 @@ export async function getReadRelays() {
   return mergeRelaySets(config.relays, outboxes);
 }
 
-/** Get the list of relays to write to */
-export async function getWriteRelays() {
+/** Get the list of relays to read another users events from, including their NIP-65 outboxes */
+export async function getAuthorRelays(pubkey: string) {
+  const outboxes = await getUserMailboxes(pubkey)
+    .then((m) => m.outboxes)
+    .catch(() => []);
+
+  return mergeRelaySets(await getReadRelays(), outboxes);
+}
+
+/**
+ * Get the list of relays to write to
+ * @param pubkey - Author of the events, defaults to the public key of the selected account
+ */
+export async function getWriteRelays(pubkey?: string) {
   const config = loadConfig();
-  const user = await getPublicKey();
+
+  const profile = getRelayProfile(config);
+  if (profile) return profile.write;
+
+  const user = pubkey ?? (await getPublicKey());
   if (!user) return config.relays;
 
   const outboxes = await getUserMailboxes(user)
@@ -61,3 +243,18 @@ export async function getWriteRelays() {
 
   return mergeRelaySets(config.relays, outboxes);
 }
+
+/** Get the list of relays to publish a users events to (write relays + search relays) */
+export async function getPublishRelays(pubkey: string) {
+  const writeRelays = await getWriteRelays(pubkey);
+
+  // Only publish to the relays of a profile so private snippets stay private
+  if (getRelayProfile()) return writeRelays;
+
+  // Include search relays for broader discoverability
+  const searchRelays = await getUserSearchRelays(pubkey).catch(
+    () => DEFAULT_SEARCH_RELAYS,
+  );
+
+  return mergeRelaySets(writeRelays, searchRelays);
+}
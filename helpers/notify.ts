@@ -0,0 +1,68 @@
+import { spawn } from "child_process";
+import type { NostrEvent } from "nostr-tools";
+import { neventEncode, npubEncode } from "nostr-tools/nip19";
+import { logger } from "./debug.js";
+import { getSnippetLanguage, getSnippetTitle } from "./snippet.js";
+
+const log = logger.extend("notify");
+
+/**
+ * Show a desktop notification with osascript on macOS or notify-send elsewhere
+ */
+export function sendDesktopNotification(title: string, message: string): void {
+  const [command, args] =
+    process.platform === "darwin"
+      ? [
+          "osascript",
+          [
+            "-e",
+            `display notification ${JSON.stringify(message)} with title ${JSON.stringify(title)}`,
+          ],
+        ]
+      : ["notify-send", ["--app-name=nostr-code-snippets", title, message]];
+
+  const child = spawn(command, args, { stdio: "ignore" });
+  child.on("error", (error) =>
+    log(`Failed to send desktop notification with ${command}: ${error}`),
+  );
+}
+
+/**
+ * Run a shell command for a snippet. The event JSON is written to stdin and
+ * the main fields are passed as SNIPPET_* environment variables
+ */
+export function runSnippetHook(
+  command: string,
+  event: NostrEvent,
+): Promise<number | null> {
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ["pipe", "inherit", "inherit"],
+      env: {
+        ...process.env,
+        SNIPPET_ID: event.id,
+        SNIPPET_NEVENT: neventEncode({
+          id: event.id,
+          author: event.pubkey,
+          kind: event.kind,
+        }),
+        SNIPPET_TITLE: getSnippetTitle(event),
+        SNIPPET_LANGUAGE: getSnippetLanguage(event) || "",
+        SNIPPET_AUTHOR: npubEncode(event.pubkey),
+      },
+    });
+
+    child.on("error", (error) => {
+      log(`Failed to run hook "${command}": ${error}`);
+      resolve(null);
+    });
+    child.on("close", (code) => {
+      if (code !== 0) log(`Hook "${command}" exited with code ${code}`);
+      resolve(code);
+    });
+
+    child.stdin.on("error", () => {});
+    child.stdin.end(JSON.stringify(event));
+  });
+}
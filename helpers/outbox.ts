@@ -0,0 +1,269 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import type { NostrEvent } from "nostr-tools";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { logger } from "./debug.js";
+import { registerShutdownHandler } from "./shutdown.js";
+
+const log = logger.extend("outbox");
+
+let database: Database | null = null;
+
+/** The first retry waits 30 seconds, doubling after every failed attempt */
+const RETRY_BASE_DELAY = 30;
+/** Never wait more than 6 hours between retries */
+const RETRY_MAX_DELAY = 6 * 60 * 60;
+
+export interface OutboxRelay {
+  relay: string;
+  attempts: number;
+  /** Unix timestamp of the next retry */
+  nextAttempt: number;
+  lastError?: string;
+}
+
+export interface OutboxEntry {
+  event: NostrEvent;
+  /**
+   * Account that signed the event, used to answer NIP-42 AUTH on retries. "" for
+   * the default signer, undefined for events queued by older versions
+   */
+  account?: string;
+  /** Unix timestamp of when the event was queued */
+  queuedAt: number;
+  relays: OutboxRelay[];
+}
+
+interface OutboxRow {
+  id: string;
+  event: string;
+  account: string | null;
+  queued_at: number;
+  relay: string;
+  attempts: number;
+  next_attempt: number;
+  last_error: string | null;
+}
+
+/**
+ * Get the path to the outbox database. This is kept out of the cache directory
+ * since queued events would be lost when the cache is cleared
+ */
+export function getOutboxPath(): string {
+  const dataHome =
+    process.env.XDG_DATA_HOME || join(homedir(), ".local", "share");
+  return join(dataHome, "nostr-code-snippets", "outbox.db");
+}
+
+/**
+ * Open the outbox database, creating the schema on first use
+ */
+function getDatabase(): Database {
+  if (database) return database;
+
+  const path = getOutboxPath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  log(`Opening outbox database: ${path}`);
+  database = new Database(path, { create: true });
+  database.run("PRAGMA journal_mode = WAL");
+  database.run(`
+    CREATE TABLE IF NOT EXISTS outbox_events (
+      id TEXT PRIMARY KEY,
+      event TEXT NOT NULL,
+      account TEXT,
+      queued_at INTEGER NOT NULL
+    )
+  `);
+  // Databases created by older versions don't have the account column
+  const columns = database.query("PRAGMA table_info(outbox_events)").all() as {
+    name: string;
+  }[];
+  if (!columns.some((column) => column.name === "account"))
+    database.run("ALTER TABLE outbox_events ADD COLUMN account TEXT");
+  database.run(`
+    CREATE TABLE IF NOT EXISTS outbox_relays (
+      event_id TEXT NOT NULL,
+      relay TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt INTEGER NOT NULL,
+      last_error TEXT,
+      PRIMARY KEY (event_id, relay)
+    )
+  `);
+
+  return database;
+}
+
+// Register shutdown handler to close the database
+registerShutdownHandler("outbox", () => {
+  if (!database) return;
+
+  log("Closing outbox database");
+  database.close();
+  database = null;
+});
+
+/** Get the delay in seconds before the next retry */
+function getRetryDelay(attempts: number): number {
+  return Math.min(
+    RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0),
+    RETRY_MAX_DELAY,
+  );
+}
+
+/**
+ * Add a signed event to the outbox so it is retried on the given relays later
+ * @param failures - The relays that failed and the error from each one
+ * @param account - Account that signed the event, "" for the default signer
+ */
+export function queueEvent(
+  event: NostrEvent,
+  failures: { relay: string; message?: string }[],
+  account: string,
+): void {
+  if (failures.length === 0) return;
+
+  const db = getDatabase();
+  const now = Math.floor(Date.now() / 1000);
+
+  const insertEvent = db.prepare(
+    "INSERT OR IGNORE INTO outbox_events (id, event, account, queued_at) VALUES (?, ?, ?, ?)",
+  );
+  const insertRelay = db.prepare(
+    `INSERT INTO outbox_relays (event_id, relay, attempts, next_attempt, last_error) VALUES (?, ?, 1, ?, ?)
+     ON CONFLICT (event_id, relay) DO NOTHING`,
+  );
+
+  db.transaction(() => {
+    insertEvent.run(event.id, JSON.stringify(event), account, now);
+    for (const failure of failures) {
+      insertRelay.run(
+        event.id,
+        failure.relay,
+        now + getRetryDelay(1),
+        failure.message ?? null,
+      );
+    }
+  })();
+
+  log(`Queued ${event.id} for ${failures.length} relays`);
+}
+
+/**
+ * Get all events waiting in the outbox, oldest first
+ * @param dueOnly - Only include relays whose next retry is due
+ */
+export function getQueuedEvents(dueOnly = false): OutboxEntry[] {
+  const db = getDatabase();
+  const now = Math.floor(Date.now() / 1000);
+
+  const rows = db
+    .query(
+      `SELECT e.id, e.event, e.account, e.queued_at, r.relay, r.attempts, r.next_attempt, r.last_error
+       FROM outbox_events e JOIN outbox_relays r ON r.event_id = e.id
+       ${dueOnly ? "WHERE r.next_attempt <= ?" : ""}
+       ORDER BY e.queued_at, r.relay`,
+    )
+    .all(...(dueOnly ? [now] : [])) as OutboxRow[];
+
+  const entries = new Map<string, OutboxEntry>();
+  for (const row of rows) {
+    let entry = entries.get(row.id);
+    if (!entry) {
+      entry = {
+        event: JSON.parse(row.event),
+        account: row.account ?? undefined,
+        queuedAt: row.queued_at,
+        relays: [],
+      };
+      entries.set(row.id, entry);
+    }
+
+    entry.relays.push({
+      relay: row.relay,
+      attempts: row.attempts,
+      nextAttempt: row.next_attempt,
+      lastError: row.last_error ?? undefined,
+    });
+  }
+
+  return Array.from(entries.values());
+}
+
+/**
+ * Remove a relay from a queued event once it has accepted or permanently rejected it
+ */
+export function removeQueuedRelay(eventId: string, relay: string): void {
+  const db = getDatabase();
+
+  db.run("DELETE FROM outbox_relays WHERE event_id = ? AND relay = ?", [
+    eventId,
+    relay,
+  ]);
+  removeEmptyEvents(db);
+}
+
+/**
+ * Record a failed retry and schedule the next attempt with exponential backoff
+ */
+export function recordFailedRetry(
+  eventId: string,
+  relay: string,
+  message?: string,
+): void {
+  const db = getDatabase();
+
+  const row = db
+    .query(
+      "SELECT attempts FROM outbox_relays WHERE event_id = ? AND relay = ?",
+    )
+    .get(eventId, relay) as { attempts: number } | null;
+  if (!row) return;
+
+  const attempts = row.attempts + 1;
+  db.run(
+    "UPDATE outbox_relays SET attempts = ?, next_attempt = ?, last_error = ? WHERE event_id = ? AND relay = ?",
+    [
+      attempts,
+      Math.floor(Date.now() / 1000) + getRetryDelay(attempts),
+      message ?? null,
+      eventId,
+      relay,
+    ],
+  );
+}
+
+/**
+ * Remove events from the outbox
+ * @param ids - Event ids or id prefixes to remove, removes everything when omitted
+ * @returns The number of events removed
+ */
+export function dropQueuedEvents(ids?: string[]): number {
+  const db = getDatabase();
+
+  const queued = (
+    db.query("SELECT id FROM outbox_events").all() as { id: string }[]
+  ).map((row) => row.id);
+  const matching = ids
+    ? queued.filter((id) => ids.some((prefix) => id.startsWith(prefix)))
+    : queued;
+
+  db.transaction(() => {
+    for (const id of matching) {
+      db.run("DELETE FROM outbox_relays WHERE event_id = ?", [id]);
+      db.run("DELETE FROM outbox_events WHERE id = ?", [id]);
+    }
+  })();
+
+  if (matching.length > 0) log(`Dropped ${matching.length} queued events`);
+  return matching.length;
+}
+
+/** Remove events that have no relays left to publish to */
+function removeEmptyEvents(db: Database): void {
+  db.run(
+    "DELETE FROM outbox_events WHERE id NOT IN (SELECT DISTINCT event_id FROM outbox_relays)",
+  );
+}
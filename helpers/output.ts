@@ -0,0 +1,95 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import type { NostrEvent } from "nostr-tools";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { logger } from "./debug.js";
+import { createUnifiedDiff } from "./diff.js";
+import { getSnippetContent, getSnippetFileName } from "./snippet.js";
+
+const log = logger.extend("output");
+
+/**
+ * Resolve where a snippet should be saved. Existing directories and paths
+ * ending with a separator get the snippets file name appended
+ */
+export function resolveSnippetFilePath(
+  event: NostrEvent,
+  output: string,
+): string {
+  const isDirectory =
+    /[\\/]$/.test(output) ||
+    (existsSync(output) && statSync(output).isDirectory());
+
+  return resolve(
+    isDirectory ? join(output, getSnippetFileName(event)) : output,
+  );
+}
+
+/**
+ * Resolve a path inside the working directory, for saves requested by MCP clients.
+ * Rejects paths that escape the directory or point into its .git directory
+ */
+export function resolveWorkspacePath(
+  path: string,
+  workspace = process.cwd(),
+): string {
+  const root = resolve(workspace);
+  const target = resolve(root, path);
+  const relativePath = relative(root, target);
+
+  if (
+    isAbsolute(relativePath) ||
+    relativePath === ".." ||
+    relativePath.startsWith(`..${sep}`)
+  )
+    throw new Error(
+      `Refusing to save outside of the working directory ${root}: ${path}`,
+    );
+
+  if (relativePath.split(sep).includes(".git"))
+    throw new Error(`Refusing to save inside the .git directory: ${path}`);
+
+  return target;
+}
+
+/**
+ * Create a diff from a local file to the content of a snippet
+ * @returns The diff, or an empty string when the file is missing or unchanged
+ */
+export function diffSnippetFile(event: NostrEvent, path: string): string {
+  if (!existsSync(path)) return "";
+
+  return createUnifiedDiff(
+    readFileSync(path, "utf-8"),
+    getSnippetContent(event),
+    path,
+    `${getSnippetFileName(event)} (${event.id.substring(0, 8)})`,
+  );
+}
+
+/**
+ * Write the content of a snippet to a file or directory
+ * @param force - Overwrite the file if it already exists
+ * @returns The path of the written file
+ */
+export function writeSnippetFile(
+  event: NostrEvent,
+  output: string,
+  force = false,
+): string {
+  const path = resolveSnippetFilePath(event, output);
+
+  if (!force && existsSync(path))
+    throw new Error(`File already exists (use --force to overwrite): ${path}`);
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, getSnippetContent(event), "utf-8");
+  log(`Wrote ${path}`);
+
+  return path;
+}
@@ -0,0 +1,245 @@
+import type { Filter, NostrEvent } from "nostr-tools";
+
+/** Number of snippets loaded per request when loading every page */
+export const ALL_PAGES_SIZE = 100;
+
+/** Stop loading pages after this many requests */
+const MAX_PAGES = 50;
+
+export interface PageOptions {
+  /** Only include snippets published at or after this unix timestamp */
+  since?: number;
+  /** Only include snippets published at or before this unix timestamp */
+  until?: number;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+}
+
+export interface Page {
+  /** Events on the page, newest first */
+  events: NostrEvent[];
+  /** Cursor for the next page, undefined when there are no more events */
+  cursor?: string;
+}
+
+interface PageCursor {
+  /** Timestamp of the oldest event on the previous page */
+  until: number;
+  /** Ids of the events at that timestamp that were already returned */
+  skip: string[];
+}
+
+function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify([cursor.until, ...cursor.skip])).toString(
+    "base64url",
+  );
+}
+
+function decodeCursor(cursor: string): PageCursor {
+  try {
+    const [until, ...skip] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    );
+    if (typeof until !== "number") throw new Error("Missing timestamp");
+
+    return { until, skip };
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
+
+interface RankedPageCursor {
+  /** Time the results were scored at, so every page ranks them the same way */
+  now: number;
+  /** Score, timestamp and id of the last item on the previous page */
+  score: number;
+  created_at: number;
+  id: string;
+}
+
+function encodeRankedCursor(cursor: RankedPageCursor): string {
+  return Buffer.from(
+    JSON.stringify([
+      "rank",
+      cursor.now,
+      cursor.score,
+      cursor.created_at,
+      cursor.id,
+    ]),
+  ).toString("base64url");
+}
+
+function decodeRankedCursor(cursor: string): RankedPageCursor {
+  try {
+    const [type, now, score, created_at, id] = JSON.parse(
+      Buffer.from(cursor, "base64url").toString("utf-8"),
+    );
+    if (
+      type !== "rank" ||
+      typeof now !== "number" ||
+      typeof score !== "number" ||
+      typeof created_at !== "number" ||
+      typeof id !== "string"
+    )
+      throw new Error("Not a ranked cursor");
+
+    return { now, score, created_at, id };
+  } catch {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+}
+
+/**
+ * Parse a unix timestamp or a date (e.g. 2024-06-01) into a unix timestamp
+ */
+export function parseTimestamp(value: string): number {
+  if (/^\d+$/.test(value)) return parseInt(value);
+
+  const date = Date.parse(value);
+  if (isNaN(date))
+    throw new Error(
+      `Invalid date: ${value}. Expected a unix timestamp or a date like 2024-06-01`,
+    );
+
+  return Math.floor(date / 1000);
+}
+
+/** Get the newest timestamp a page can include */
+function getPageUntil(options: PageOptions): number | undefined {
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const until = Math.min(options.until ?? Infinity, cursor?.until ?? Infinity);
+
+  return isFinite(until) ? until : undefined;
+}
+
+/**
+ * Add the time range and cursor of a page to a relay filter
+ */
+export function applyPageFilter<T extends Filter>(
+  filter: T,
+  options: PageOptions,
+): T {
+  const paged: T = { ...filter };
+
+  const until = getPageUntil(options);
+  if (until !== undefined) paged.until = until;
+  if (options.since !== undefined) paged.since = options.since;
+
+  // Ask for extra events to make up for the ones already returned at the cursor timestamp
+  if (paged.limit && options.cursor)
+    paged.limit += decodeCursor(options.cursor).skip.length;
+
+  return paged;
+}
+
+/**
+ * Take a page of the newest events and create the cursor for the next page
+ * @param events - Every event loaded for the page filter
+ */
+export function takePage(
+  events: NostrEvent[],
+  limit: number | undefined,
+  options: PageOptions,
+): Page {
+  const cursor = options.cursor ? decodeCursor(options.cursor) : undefined;
+  const skip = new Set(cursor?.skip);
+  const until = getPageUntil(options);
+
+  const sorted = events
+    .filter(
+      (event) =>
+        !skip.has(event.id) &&
+        (until === undefined || event.created_at <= until) &&
+        (options.since === undefined || event.created_at >= options.since),
+    )
+    .sort((a, b) => b.created_at - a.created_at);
+
+  if (!limit || sorted.length < limit) return { events: sorted };
+
+  const page = sorted.slice(0, limit);
+  const oldest = page[page.length - 1]!.created_at;
+
+  // Events at the oldest timestamp can continue on the next page, so remember the ones returned
+  const returned = page
+    .filter((event) => event.created_at === oldest)
+    .map((event) => event.id);
+  if (cursor && cursor.until === oldest) returned.push(...cursor.skip);
+
+  return {
+    events: page,
+    cursor: encodeCursor({ until: oldest, skip: returned }),
+  };
+}
+
+/**
+ * Get the time ranked results should be scored at, the time of the first page
+ * when continuing from a cursor
+ */
+export function getRankedPageTime(options: PageOptions): number {
+  return options.cursor
+    ? decodeRankedCursor(options.cursor).now
+    : Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Take a page of ranked events and create the cursor for the next page
+ * @param ranked - Every matching event, sorted by score, then newest first, then by id
+ */
+export function takeRankedPage<
+  T extends { event: NostrEvent; score: { total: number } },
+>(
+  ranked: T[],
+  limit: number | undefined,
+  options: PageOptions,
+): { items: T[]; cursor?: string } {
+  const cursor = options.cursor
+    ? decodeRankedCursor(options.cursor)
+    : undefined;
+
+  const remaining = ranked.filter(
+    ({ event, score }) =>
+      (options.until === undefined || event.created_at <= options.until) &&
+      (options.since === undefined || event.created_at >= options.since) &&
+      (!cursor ||
+        score.total < cursor.score ||
+        (score.total === cursor.score &&
+          (event.created_at < cursor.created_at ||
+            (event.created_at === cursor.created_at && event.id > cursor.id)))),
+  );
+
+  if (!limit || remaining.length <= limit) return { items: remaining };
+
+  const items = remaining.slice(0, limit);
+  const last = items[items.length - 1]!;
+
+  return {
+    items,
+    cursor: encodeRankedCursor({
+      now: getRankedPageTime(options),
+      score: last.score.total,
+      created_at: last.event.created_at,
+      id: last.event.id,
+    }),
+  };
+}
+
+/**
+ * Load pages until there are no more events
+ * @param load - Loads the page for a cursor
+ */
+export async function loadAllPages(
+  load: (cursor?: string) => Promise<Page>,
+): Promise<NostrEvent[]> {
+  const events: NostrEvent[] = [];
+  let cursor: string | undefined;
+
+  for (let i = 0; i < MAX_PAGES; i++) {
+    const page = await load(cursor);
+    events.push(...page.events);
+
+    if (!page.cursor) break;
+    cursor = page.cursor;
+  }
+
+  return events;
+}
@@ -0,0 +1,450 @@
+import type { PublishResponse } from "applesauce-relay";
+import type { EventTemplate, NostrEvent } from "nostr-tools";
+import { neventEncode } from "nostr-tools/nip19";
+import { loadConfig, type PublishDefaults } from "./config.js";
+import { PUBLISH_RETRIES, PUBLISH_TIMEOUT } from "./const.js";
+import { logger } from "./debug.js";
+import { getFileExtension, normalizeLanguage } from "./languages.js";
+import {
+  authenticateRelay,
+  eventStore,
+  getPublishRelays,
+  getRelayAuthReport,
+  markAuthRequired,
+  pool,
+  type RelayAuthReport,
+} from "./nostr.js";
+import {
+  getQueuedEvents,
+  queueEvent,
+  recordFailedRetry,
+  removeQueuedRelay,
+} from "./outbox.js";
+import {
+  filterDeadRelays,
+  recordRelayFailure,
+  recordRelaySuccess,
+} from "./relays.js";
+import { getSigner } from "./signer.js";
+import { createSnippetVersionTags } from "./snippet.js";
+import { getPublicKey } from "./user.js";
+
+const log = logger.extend("publish");
+
+export interface SnippetData {
+  content: string;
+  language?: string;
+  title: string;
+  description?: string;
+  tags: string[];
+  dependencies: string[];
+  license?: string;
+  repo?: string;
+  /** The previous version of the snippet when publishing an edit */
+  previous?: NostrEvent;
+}
+
+export interface RelayPublishResult {
+  relay: string;
+  success: boolean;
+  message?: string;
+  /** Number of times the event was sent to the relay */
+  attempts: number;
+  /** Whether the event was added to the outbox to retry this relay later */
+  queued?: boolean;
+  /** Set when the relay asked for NIP-42 authentication */
+  auth?: RelayAuthReport;
+}
+
+export interface PublishReport {
+  event: NostrEvent;
+  /** NIP-19 nevent with the relays that accepted the event as hints */
+  nevent: string;
+  relays: RelayPublishResult[];
+  successful: number;
+  failed: number;
+}
+
+export interface PublishOptions {
+  /** Relays to publish to, defaults to the users publish relays */
+  relays?: string[];
+  /** How long to wait for each relay to respond */
+  timeout?: number;
+  /** How many times to retry a relay that did not respond */
+  retries?: number;
+  /** Name of the account to sign and authenticate with, defaults to the selected account */
+  account?: string;
+}
+
+export interface OutboxRetryResult {
+  /** Number of relay attempts made */
+  attempted: number;
+  /** Number of relays that accepted their queued event */
+  published: number;
+  /** Number of relays still waiting in the outbox */
+  remaining: number;
+}
+
+/** Prefixes of relay rejections that may succeed if the event is sent again later */
+const RETRYABLE_PREFIXES = ["rate-limited:", "error:"];
+
+/** Prefix of relay rejections that require NIP-42 authentication */
+const AUTH_REQUIRED_PREFIX = "auth-required:";
+
+/** Normalize a list of tags the way they are published */
+function normalizeTags(tags: string[]): string[] {
+  return tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Get the tags the config adds to snippets in a language
+ */
+export function getLanguageTags(
+  language: string | undefined,
+  defaults: PublishDefaults | undefined = loadConfig().publish,
+): string[] {
+  if (!language || !defaults?.languageTags) return [];
+
+  const normalized = normalizeLanguage(language) || language.toLowerCase();
+  return normalizeTags(
+    Object.entries(defaults.languageTags)
+      .filter(
+        ([name]) =>
+          (normalizeLanguage(name) || name.toLowerCase()) === normalized,
+      )
+      .flatMap(([, tags]) => tags),
+  );
+}
+
+/**
+ * Fill in the publish defaults from the config. The license and repository are
+ * only used when the snippet has none, tags and dependencies are added
+ */
+export function applyPublishDefaults<
+  T extends Pick<
+    SnippetData,
+    "tags" | "dependencies" | "license" | "repo" | "language"
+  >,
+>(data: T, defaults: PublishDefaults | undefined = loadConfig().publish): T {
+  if (!defaults) return data;
+
+  return {
+    ...data,
+    license: data.license || defaults.license,
+    repo: data.repo || defaults.repo,
+    tags: Array.from(
+      new Set([
+        ...data.tags,
+        ...normalizeTags(defaults.tags ?? []),
+        ...getLanguageTags(data.language, defaults),
+      ]),
+    ),
+    dependencies: Array.from(
+      new Set([...data.dependencies, ...(defaults.dependencies ?? [])]),
+    ),
+  };
+}
+
+/**
+ * Build the NIP-C0 tags for a code snippet
+ */
+export function createSnippetTags(snippetData: SnippetData): string[][] {
+  const tags: string[][] = [];
+
+  // Add language tag
+  if (snippetData.language) {
+    tags.push(["l", snippetData.language]);
+  }
+
+  // Add name/title tag
+  tags.push(["name", snippetData.title]);
+
+  // Add description tag if provided
+  if (snippetData.description) {
+    tags.push(["description", snippetData.description]);
+  }
+
+  // Add file extension tag
+  if (snippetData.language) {
+    const extension = getFileExtension(snippetData.language);
+    tags.push(["extension", extension]);
+  }
+
+  // Add all user tags
+  snippetData.tags.forEach((tag: string) => {
+    tags.push(["t", tag]);
+  });
+
+  // Add dependencies
+  snippetData.dependencies.forEach((dep: string) => {
+    tags.push(["dep", dep]);
+  });
+
+  // Add license if provided
+  if (snippetData.license) {
+    tags.push(["license", snippetData.license]);
+  }
+
+  // Add repository URL if provided
+  if (snippetData.repo) {
+    tags.push(["repo", snippetData.repo]);
+  }
+
+  // Link edits to the previous version of the snippet
+  if (snippetData.previous) {
+    tags.push(...createSnippetVersionTags(snippetData.previous));
+  }
+
+  return tags;
+}
+
+/**
+ * Create an unsigned NIP-C0 code snippet event
+ */
+export function createSnippetTemplate(snippetData: SnippetData): EventTemplate {
+  return {
+    kind: 1337, // NIP-C0 code snippet kind
+    created_at: Math.floor(Date.now() / 1000),
+    tags: createSnippetTags(snippetData),
+    content: snippetData.content,
+  };
+}
+
+/**
+ * Send an event to a relay once, returning auth-required rejections as a response instead of an error
+ */
+function sendEvent(
+  relay: string,
+  event: NostrEvent,
+  timeout: number,
+): Promise<PublishResponse> {
+  return pool
+    .relay(relay)
+    .publish(event, { retries: false, timeout })
+    .catch((error) => {
+      if (
+        error instanceof Error &&
+        error.message.startsWith(AUTH_REQUIRED_PREFIX)
+      )
+        return { ok: false, message: error.message, from: relay };
+      throw error;
+    });
+}
+
+/**
+ * Publish an event to a single relay, retrying when the relay does not respond
+ * @param account - Account to authenticate as when the relay asks for NIP-42 auth
+ */
+async function publishToRelay(
+  relay: string,
+  event: NostrEvent,
+  timeout: number,
+  retries: number,
+  account?: string,
+): Promise<RelayPublishResult> {
+  let message: string | undefined;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    try {
+      const start = Date.now();
+      let response = await sendEvent(relay, event, timeout);
+      recordRelaySuccess(relay, Date.now() - start);
+
+      // Authenticate and send the event again if the relay requires NIP-42 auth
+      if (!response.ok && response.message?.startsWith(AUTH_REQUIRED_PREFIX)) {
+        markAuthRequired(relay);
+        if (await authenticateRelay(relay, account))
+          response = await sendEvent(relay, event, timeout);
+      }
+
+      if (response.ok) log(`   ✅ Published to ${relay}`);
+      else log(`   ❌ Failed to publish to ${relay}: ${response.message}`);
+
+      // The relay responded, so there is no point in sending the event again right away
+      return {
+        relay,
+        success: response.ok,
+        message: response.message,
+        attempts: attempt,
+        auth: getRelayAuthReport(relay),
+        queued:
+          !response.ok &&
+          RETRYABLE_PREFIXES.some((prefix) =>
+            response.message?.startsWith(prefix),
+          ),
+      };
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+      log(`   ❌ Attempt ${attempt} to publish to ${relay} failed: ${message}`);
+    }
+  }
+
+  recordRelayFailure(relay, message);
+  return {
+    relay,
+    success: false,
+    message,
+    attempts: retries + 1,
+    auth: getRelayAuthReport(relay),
+    queued: true,
+  };
+}
+
+/**
+ * Describe a publish that failed on every relay
+ */
+export function describePublishFailure(report: PublishReport): string {
+  const queued = report.relays.filter((r) => r.queued).length;
+  const message = `Failed to publish to any relays (${report.failed} failures)`;
+
+  return queued > 0
+    ? `${message}. The event was saved to the outbox and will be retried on ${queued} relays`
+    : message;
+}
+
+/**
+ * Publish a signed event to relays and report the result from each relay
+ */
+export async function publishEvent(
+  event: NostrEvent,
+  options: PublishOptions = {},
+): Promise<PublishReport> {
+  const relays = options.relays ?? (await getPublishRelays(event.pubkey));
+  const timeout = options.timeout ?? PUBLISH_TIMEOUT;
+  const retries = options.retries ?? PUBLISH_RETRIES;
+
+  log(
+    `Publishing ${event.id} to ${relays.length} relays: ${relays.join(", ")}`,
+  );
+
+  // Add to the event store so the event is saved to the local cache
+  eventStore.add(event);
+
+  // Don't wait on relays that keep failing, the outbox retries them later
+  const alive = new Set(filterDeadRelays(relays));
+
+  const results = await Promise.all(
+    relays.map((relay): Promise<RelayPublishResult> | RelayPublishResult =>
+      alive.has(relay)
+        ? publishToRelay(relay, event, timeout, retries, options.account)
+        : {
+            relay,
+            success: false,
+            message: "skipped: relay has been unreachable recently",
+            attempts: 0,
+            queued: true,
+          },
+    ),
+  );
+
+  const successful = results.filter((r) => r.success).length;
+  const failed = results.length - successful;
+
+  // Keep the signed event so relays that could not be reached can be retried later.
+  // The relays that accepted it already have it, so a broken outbox is not fatal
+  try {
+    queueEvent(
+      event,
+      results.filter((r) => r.queued),
+      options.account ?? loadConfig().account ?? "",
+    );
+  } catch (error) {
+    log(`⚠️  Failed to queue the event for retrying: ${error}`);
+    for (const result of results) result.queued = false;
+  }
+
+  if (successful > 0)
+    log(`📡 Published successfully to ${successful}/${relays.length} relays`);
+  if (failed > 0) log(`⚠️  Failed to publish to ${failed} relays`);
+
+  return {
+    event,
+    nevent: neventEncode({
+      id: event.id,
+      author: event.pubkey,
+      kind: event.kind,
+      relays: results
+        .filter((r) => r.success)
+        .slice(0, 3)
+        .map((r) => r.relay),
+    }),
+    relays: results,
+    successful,
+    failed,
+  };
+}
+
+/**
+ * Sign and publish a code snippet to the users relays
+ */
+export async function publishSnippet(
+  snippetData: SnippetData,
+  options: PublishOptions = {},
+): Promise<PublishReport> {
+  log("📡 Publishing to Nostr relays...");
+  log(`   Event kind: 1337 (NIP-C0 code snippet)`);
+  log(`   Content size: ${snippetData.content.length} characters`);
+  log(`   Title: ${snippetData.title}`);
+  log(`   Language: ${snippetData.language || "Unknown"}`);
+
+  // Get signer and user public key
+  const signer = await getSigner(options.account);
+  const pubkey = await getPublicKey(options.account);
+
+  if (!pubkey) {
+    throw new Error(
+      "No public key found. Please configure a signer first using: nostr-code-snippets signer --connect",
+    );
+  }
+
+  const template = createSnippetTemplate(snippetData);
+  log(`   Created event with ${template.tags.length} tags`);
+
+  const event = await signer.signEvent(template);
+  log(`   Event signed with ID: ${event.id}`);
+
+  return publishEvent(event, options);
+}
+
+/**
+ * Retry publishing the events in the outbox to the relays that failed
+ * @param force - Retry every relay now instead of waiting for its backoff
+ */
+export async function retryQueuedEvents(
+  force = false,
+  options: Pick<PublishOptions, "timeout"> = {},
+): Promise<OutboxRetryResult> {
+  const entries = getQueuedEvents(!force);
+  const timeout = options.timeout ?? PUBLISH_TIMEOUT;
+  let attempted = 0;
+  let published = 0;
+
+  for (const entry of entries) {
+    const results = await Promise.all(
+      entry.relays.map(({ relay }) =>
+        publishToRelay(relay, entry.event, timeout, 0, entry.account),
+      ),
+    );
+
+    for (const result of results) {
+      attempted++;
+      if (result.success) published++;
+
+      // Stop retrying relays that accepted or permanently rejected the event
+      if (result.success || !result.queued)
+        removeQueuedRelay(entry.event.id, result.relay);
+      else recordFailedRetry(entry.event.id, result.relay, result.message);
+    }
+  }
+
+  const remaining = getQueuedEvents().reduce(
+    (count, entry) => count + entry.relays.length,
+    0,
+  );
+  if (attempted > 0)
+    log(
+      `Retried ${attempted} queued relays, ${published} published, ${remaining} remaining`,
+    );
+
+  return { attempted, published, remaining };
+}
@@ -0,0 +1,148 @@
+import type { NostrEvent } from "nostr-tools";
+import { normalizeLanguage } from "./languages.js";
+import { parseTimestamp } from "./pagination.js";
+import {
+  getSnippetDependencies,
+  getSnippetDescription,
+  getSnippetLicense,
+  getSnippetName,
+} from "./snippet.js";
+
+/**
+ * Parser for the structured search syntax, e.g.
+ * `lang:rust tag:async author:npub1... license:MIT dep:tokio "exact phrase" -exclude since:2025-01-01`
+ */
+
+export interface ParsedQuery {
+  /** Free text terms and phrases, sent to relays as the search text */
+  text: string;
+  /** Quoted phrases that must appear in the snippet */
+  phrases: string[];
+  /** Words or phrases that must not appear in the snippet */
+  exclude: string[];
+  language?: string;
+  tags: string[];
+  /** Authors as npub, hex public key or NIP-05 address */
+  authors: string[];
+  license?: string;
+  dependencies: string[];
+  since?: number;
+  until?: number;
+}
+
+/** Split a query into tokens, keeping quoted values together */
+function tokenizeQuery(query: string): string[] {
+  return query.match(/-?(?:[\w-]+:)?"[^"]*"?|\S+/g) ?? [];
+}
+
+/** Remove the quotes around a value */
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, "");
+}
+
+/**
+ * Parse a search query into filters. Unknown `key:value` tokens are kept as text
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = {
+    text: "",
+    phrases: [],
+    exclude: [],
+    tags: [],
+    authors: [],
+    dependencies: [],
+  };
+  const text: string[] = [];
+
+  for (const token of tokenizeQuery(query)) {
+    if (token.length > 1 && token.startsWith("-")) {
+      const value = unquote(token.substring(1));
+      if (value) parsed.exclude.push(value.toLowerCase());
+      continue;
+    }
+
+    const field = token.match(/^(\w+):(.+)$/);
+    const value = field ? unquote(field[2]!) : "";
+    switch (field?.[1]?.toLowerCase()) {
+      case "lang":
+      case "language":
+        parsed.language = normalizeLanguage(value) || value.toLowerCase();
+        break;
+      case "tag":
+        parsed.tags.push(value.toLowerCase());
+        break;
+      case "author":
+        parsed.authors.push(value);
+        break;
+      case "license":
+        parsed.license = value;
+        break;
+      case "dep":
+        parsed.dependencies.push(value.toLowerCase());
+        break;
+      case "since":
+        parsed.since = parseTimestamp(value);
+        break;
+      case "until":
+        parsed.until = parseTimestamp(value);
+        break;
+      default:
+        if (token.startsWith('"')) {
+          const phrase = unquote(token);
+          if (phrase) {
+            parsed.phrases.push(phrase.toLowerCase());
+            text.push(phrase);
+          }
+        } else {
+          text.push(token);
+        }
+    }
+  }
+
+  parsed.text = text.join(" ");
+  return parsed;
+}
+
+/**
+ * Check the parts of a parsed query that relays can't filter on: phrases,
+ * exclusions, license and dependencies
+ */
+export function matchesParsedQuery(
+  event: NostrEvent,
+  parsed: ParsedQuery,
+): boolean {
+  const searchable = [
+    getSnippetName(event),
+    getSnippetDescription(event),
+    event.content,
+  ]
+    .join("\n")
+    .toLowerCase();
+
+  if (parsed.phrases.some((phrase) => !searchable.includes(phrase)))
+    return false;
+  if (parsed.exclude.some((word) => searchable.includes(word))) return false;
+
+  if (
+    parsed.license &&
+    getSnippetLicense(event)?.toLowerCase() !== parsed.license.toLowerCase()
+  )
+    return false;
+
+  if (parsed.dependencies.length > 0) {
+    // Match the package name so dep:tokio also matches "tokio@1.0"
+    const dependencies = getSnippetDependencies(event).map((dep) =>
+      dep.toLowerCase(),
+    );
+    if (
+      !parsed.dependencies.every((wanted) =>
+        dependencies.some(
+          (dep) => dep === wanted || dep.match(/^(@?[^@\s]+)/)?.[1] === wanted,
+        ),
+      )
+    )
+      return false;
+  }
+
+  return true;
+}
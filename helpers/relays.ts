@@ -0,0 +1,334 @@
+import { Database } from "bun:sqlite";
+import { ensureHttpURL } from "applesauce-core/helpers";
+import { mkdirSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { lastValueFrom, timeout, toArray } from "rxjs";
+import { logger } from "./debug.js";
+import { pool } from "./nostr.js";
+import { registerShutdownHandler } from "./shutdown.js";
+
+const log = logger.extend("relays");
+
+let database: Database | null = null;
+
+/** How long a NIP-11 information document is cached for */
+export const RELAY_INFO_TTL = 24 * 60 * 60;
+
+/** A failed NIP-11 request is retried after this long instead of waiting for the TTL */
+const RELAY_INFO_RETRY_DELAY = 5 * 60;
+
+/** A relay is considered dead after this many failures in a row */
+const DEAD_RELAY_FAILURES = 3;
+/** Dead relays are tried again once their last failure is this old */
+const DEAD_RELAY_RETRY_DELAY = 60 * 60;
+
+/** How long to wait for a relay to answer a probe */
+const PROBE_TIMEOUT = 10_000;
+
+/** How long to wait for a NIP-11 information document */
+const INFO_TIMEOUT = 10_000;
+
+export interface RelayInfo {
+  name?: string;
+  description?: string;
+  pubkey?: string;
+  contact?: string;
+  supported_nips?: number[];
+  software?: string;
+  version?: string;
+  limitation?: {
+    max_message_length?: number;
+    max_subscriptions?: number;
+    max_filters?: number;
+    max_limit?: number;
+    max_subid_length?: number;
+    max_event_tags?: number;
+    max_content_length?: number;
+    min_pow_difficulty?: number;
+    auth_required?: boolean;
+    payment_required?: boolean;
+  };
+}
+
+export interface RelayStatus {
+  relay: string;
+  /** The NIP-11 information document, null if the relay doesn't serve one */
+  info: RelayInfo | null;
+  /** Unix timestamp of when the information document was fetched */
+  infoUpdatedAt?: number;
+  /** Round trip time of the last successful request in milliseconds */
+  latency?: number;
+  /** Unix timestamp of the last successful request */
+  lastSuccess?: number;
+  /** Unix timestamp of the last failed request */
+  lastFailure?: number;
+  /** Number of failures since the last successful request */
+  failures: number;
+  lastError?: string;
+}
+
+interface RelayRow {
+  relay: string;
+  info: string | null;
+  info_updated_at: number | null;
+  latency: number | null;
+  last_success: number | null;
+  last_failure: number | null;
+  failures: number;
+  last_error: string | null;
+}
+
+/**
+ * Get the path to the relay metadata database
+ */
+export function getRelayCachePath(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(cacheHome, "nostr-code-snippets", "relays.db");
+}
+
+/**
+ * Open the relay metadata database, creating the schema on first use
+ */
+function getDatabase(): Database {
+  if (database) return database;
+
+  const path = getRelayCachePath();
+  mkdirSync(dirname(path), { recursive: true });
+
+  log(`Opening relay database: ${path}`);
+  database = new Database(path, { create: true });
+  database.run("PRAGMA journal_mode = WAL");
+  database.run(`
+    CREATE TABLE IF NOT EXISTS relays (
+      relay TEXT PRIMARY KEY,
+      info TEXT,
+      info_updated_at INTEGER,
+      latency INTEGER,
+      last_success INTEGER,
+      last_failure INTEGER,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT
+    )
+  `);
+
+  return database;
+}
+
+// Register shutdown handler to close the database
+registerShutdownHandler("relays", () => {
+  if (!database) return;
+
+  log("Closing relay database");
+  database.close();
+  database = null;
+});
+
+/** Convert a database row into a relay status */
+function rowToStatus(row: RelayRow): RelayStatus {
+  return {
+    relay: row.relay,
+    info: row.info ? JSON.parse(row.info) : null,
+    infoUpdatedAt: row.info_updated_at ?? undefined,
+    latency: row.latency ?? undefined,
+    lastSuccess: row.last_success ?? undefined,
+    lastFailure: row.last_failure ?? undefined,
+    failures: row.failures,
+    lastError: row.last_error ?? undefined,
+  };
+}
+
+/**
+ * Get the cached status of a relay
+ */
+export function getRelayStatus(relay: string): RelayStatus | undefined {
+  const row = getDatabase()
+    .query("SELECT * FROM relays WHERE relay = ?")
+    .get(relay) as RelayRow | null;
+
+  return row ? rowToStatus(row) : undefined;
+}
+
+/**
+ * Get the cached status of every relay that has been used
+ */
+export function getRelayStatuses(): RelayStatus[] {
+  const rows = getDatabase().query("SELECT * FROM relays").all() as RelayRow[];
+  return rows.map(rowToStatus);
+}
+
+/** Make sure a relay has a row to update */
+function ensureRelay(db: Database, relay: string): void {
+  db.run("INSERT OR IGNORE INTO relays (relay) VALUES (?)", [relay]);
+}
+
+/**
+ * Record that a relay answered a request
+ * @param latency - Round trip time in milliseconds
+ */
+export function recordRelaySuccess(relay: string, latency?: number): void {
+  const db = getDatabase();
+  ensureRelay(db, relay);
+  db.run(
+    `UPDATE relays SET failures = 0, last_error = NULL, last_success = ?, latency = COALESCE(?, latency)
+     WHERE relay = ?`,
+    [Math.floor(Date.now() / 1000), latency ?? null, relay],
+  );
+}
+
+/**
+ * Record that a relay could not be reached
+ */
+export function recordRelayFailure(relay: string, error?: string): void {
+  const db = getDatabase();
+  ensureRelay(db, relay);
+  db.run(
+    `UPDATE relays SET failures = failures + 1, last_error = ?, last_failure = ?
+     WHERE relay = ?`,
+    [error ?? null, Math.floor(Date.now() / 1000), relay],
+  );
+}
+
+/**
+ * Check if a relay has failed too many times recently to be worth trying
+ */
+export function isRelayDead(status: RelayStatus | undefined): boolean {
+  if (!status || status.failures < DEAD_RELAY_FAILURES) return false;
+
+  const now = Math.floor(Date.now() / 1000);
+  return now - (status.lastFailure ?? 0) < DEAD_RELAY_RETRY_DELAY;
+}
+
+/**
+ * Remove relays that are known to be dead. Returns every relay if they all are
+ * so there is still something to try
+ */
+export function filterDeadRelays(relays: string[]): string[] {
+  const alive = relays.filter((relay) => !isRelayDead(getRelayStatus(relay)));
+  if (alive.length < relays.length)
+    log(`Skipping ${relays.length - alive.length} dead relays`);
+
+  return alive.length > 0 ? alive : relays;
+}
+
+/**
+ * Fetch the NIP-11 information document of a relay
+ * @returns null when the relay doesn't serve one
+ * @throws when the relay can't be reached
+ */
+async function fetchRelayInfo(relay: string): Promise<RelayInfo | null> {
+  const response = await fetch(ensureHttpURL(relay), {
+    headers: { Accept: "application/nostr+json" },
+    signal: AbortSignal.timeout(INFO_TIMEOUT),
+  });
+  if (response.status >= 500) throw new Error(`HTTP ${response.status}`);
+  if (!response.ok) return null;
+
+  try {
+    return (await response.json()) as RelayInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the NIP-11 information document of a relay, using the cache while it is
+ * fresh. Failed requests are recorded and keep the cached document for a while
+ * instead of replacing it
+ * @param refresh - Fetch the document even if the cached one is fresh
+ */
+export async function getRelayInfo(
+  relay: string,
+  refresh = false,
+): Promise<RelayInfo | null> {
+  const status = getRelayStatus(relay);
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    !refresh &&
+    ((status?.infoUpdatedAt && now - status.infoUpdatedAt < RELAY_INFO_TTL) ||
+      (status?.lastFailure &&
+        now - status.lastFailure < RELAY_INFO_RETRY_DELAY))
+  )
+    return status.info;
+
+  let info: RelayInfo | null;
+  try {
+    info = await fetchRelayInfo(relay);
+  } catch (error) {
+    log(`Failed to fetch information document of ${relay}: ${error}`);
+    recordRelayFailure(relay, getErrorMessage(error));
+    return status?.info ?? null;
+  }
+
+  const db = getDatabase();
+  ensureRelay(db, relay);
+  db.run("UPDATE relays SET info = ?, info_updated_at = ? WHERE relay = ?", [
+    info ? JSON.stringify(info) : null,
+    now,
+    relay,
+  ]);
+
+  return info;
+}
+
+/** Get a readable message from an error or a websocket error event */
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === "object" && "message" in error && error.message)
+    return String(error.message);
+
+  return "Connection failed";
+}
+
+/**
+ * Run a request to a relay, recording whether it succeeded and how long it took
+ */
+export async function recordRelayRequest<T>(
+  relay: string,
+  request: () => Promise<T>,
+): Promise<T> {
+  const start = Date.now();
+  try {
+    const result = await request();
+    recordRelaySuccess(relay, Date.now() - start);
+    return result;
+  } catch (error) {
+    recordRelayFailure(relay, getErrorMessage(error));
+    throw error;
+  }
+}
+
+/**
+ * Connect to a relay and time a small request, updating the cached status
+ */
+export async function probeRelay(relay: string): Promise<RelayStatus> {
+  log(`Probing ${relay}`);
+  await getRelayInfo(relay, true);
+
+  await recordRelayRequest(relay, () =>
+    lastValueFrom(
+      pool
+        .relay(relay)
+        .request({ kinds: [1337], limit: 1 }, { reconnect: false })
+        .pipe(toArray(), timeout(PROBE_TIMEOUT)),
+    ),
+  ).catch(() => {
+    // The failure is in the status
+  });
+
+  return getRelayStatus(relay)!;
+}
+
+/**
+ * Sort relays from most to least reliable: dead relays last, then by recent
+ * failures and latency
+ */
+export function rankRelays(statuses: RelayStatus[]): RelayStatus[] {
+  return [...statuses].sort(
+    (a, b) =>
+      Number(isRelayDead(a)) - Number(isRelayDead(b)) ||
+      a.failures - b.failures ||
+      (a.latency ?? Infinity) - (b.latency ?? Infinity) ||
+      a.relay.localeCompare(b.relay),
+  );
+}
@@ -0,0 +1,163 @@
+import { getSeenRelays, getTagValue } from "applesauce-core/helpers";
+import type { NostrEvent } from "nostr-tools";
+import { normalizeLanguage } from "./languages.js";
+import {
+  getSnippetDescription,
+  getSnippetLanguage,
+  getSnippetName,
+  getSnippetTags,
+} from "./snippet.js";
+
+/** Points for each query term found in a field. The name also covers the title tag */
+const FIELD_BOOSTS = {
+  name: 10,
+  description: 5,
+  tags: 4,
+  language: 3,
+} as const;
+
+/** Extra points when the whole query appears in the name or description */
+const PHRASE_BOOST = 5;
+
+/** Maximum points for term frequency in the content */
+const MAX_CONTENT_SCORE = 6;
+
+/** Points for a snippet published right now, halved every RECENCY_HALF_LIFE seconds */
+const RECENCY_BOOST = 3;
+const RECENCY_HALF_LIFE = 180 * 24 * 60 * 60;
+
+/** Maximum points for being returned by several relays */
+const MAX_RELAYS_SCORE = 3;
+
+export interface RelevanceScore {
+  /** Sum of every component */
+  total: number;
+  name: number;
+  description: number;
+  tags: number;
+  language: number;
+  content: number;
+  recency: number;
+  relays: number;
+}
+
+export interface RankedSnippet {
+  event: NostrEvent;
+  score: RelevanceScore;
+}
+
+/**
+ * Split a search query into lowercase terms
+ */
+export function getQueryTerms(query: string): string[] {
+  return Array.from(
+    new Set(
+      query
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}_#+.-]+/u)
+        .map((term) => term.replace(/^[.-]+|[.-]+$/g, ""))
+        .filter((term) => term.length > 0),
+    ),
+  );
+}
+
+/** Count how many of the terms appear in a text */
+function countMatchingTerms(text: string | undefined, terms: string[]) {
+  if (!text) return 0;
+
+  const lower = text.toLowerCase();
+  return terms.filter((term) => lower.includes(term)).length;
+}
+
+/** Count the occurrences of a term in a text */
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (
+    let index = text.indexOf(term);
+    index !== -1;
+    index = text.indexOf(term, index + term.length)
+  )
+    count++;
+
+  return count;
+}
+
+/** Round a score so it stays readable in JSON output */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Score how relevant a code snippet is to a search query
+ * @param now - Unix timestamp used for the recency score
+ */
+export function scoreSnippet(
+  event: NostrEvent,
+  query: string,
+  now = Math.floor(Date.now() / 1000),
+): RelevanceScore {
+  const terms = getQueryTerms(query);
+  const phrase = terms.join(" ");
+
+  // Older snippets use a title tag instead of a name
+  const name = getSnippetName(event) || getTagValue(event, "title");
+  const description = getSnippetDescription(event);
+  const hasPhrase =
+    terms.length > 1 &&
+    [name, description].some((field) => field?.toLowerCase().includes(phrase));
+
+  // Tags and languages only count when a term matches them exactly
+  const tags = new Set(getSnippetTags(event));
+  const language = getSnippetLanguage(event)?.toLowerCase();
+
+  const content = event.content.toLowerCase();
+  const contentScore = terms.reduce(
+    (score, term) => score + Math.log2(1 + countOccurrences(content, term)),
+    0,
+  );
+
+  const age = Math.max(0, now - event.created_at);
+  const relays = getSeenRelays(event)?.size ?? 0;
+
+  const score: Omit<RelevanceScore, "total"> = {
+    name:
+      countMatchingTerms(name, terms) * FIELD_BOOSTS.name +
+      (hasPhrase ? PHRASE_BOOST : 0),
+    description:
+      countMatchingTerms(description, terms) * FIELD_BOOSTS.description,
+    tags: terms.filter((term) => tags.has(term)).length * FIELD_BOOSTS.tags,
+    language:
+      language &&
+      terms.some((term) => (normalizeLanguage(term) || term) === language)
+        ? FIELD_BOOSTS.language
+        : 0,
+    content: round(Math.min(MAX_CONTENT_SCORE, contentScore)),
+    recency: round(RECENCY_BOOST * Math.pow(0.5, age / RECENCY_HALF_LIFE)),
+    relays: round(Math.min(MAX_RELAYS_SCORE, Math.log2(1 + relays))),
+  };
+
+  return {
+    total: round(Object.values(score).reduce((sum, value) => sum + value, 0)),
+    ...score,
+  };
+}
+
+/**
+ * Sort code snippets by how relevant they are to a search query, most relevant
+ * first. Ties are sorted newest first, then by id so pages stay stable
+ * @param now - Unix timestamp the recency of the snippets is scored at
+ */
+export function rankSnippets(
+  events: NostrEvent[],
+  query: string,
+  now = Math.floor(Date.now() / 1000),
+): RankedSnippet[] {
+  return events
+    .map((event) => ({ event, score: scoreSnippet(event, query, now) }))
+    .sort(
+      (a, b) =>
+        b.score.total - a.score.total ||
+        b.event.created_at - a.event.created_at ||
+        (a.event.id < b.event.id ? -1 : a.event.id > b.event.id ? 1 : 0),
+    );
+}
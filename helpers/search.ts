@@ -1,52 +1,57 @@
-import {
-  mapEventsToStore,
-  mapEventsToTimeline,
-  simpleTimeout,
-} from "applesauce-core";
-import {
-  getTagValue,
-  mergeRelaySets,
-  normalizeToPubkey,
-} from "applesauce-core/helpers";
+import { getTagValue, mergeRelaySets } from "applesauce-core/helpers";
 import { Index } from "flexsearch";
 import { type Filter, type NostrEvent } from "nostr-tools";
-import { endWith, firstValueFrom, lastValueFrom, startWith } from "rxjs";
+import { lastValueFrom, tap, timeout } from "rxjs";
+import { searchCachedSnippets } from "./cache.js";
+import { getRelayProfile } from "./config.js";
 import { DEFAULT_SEARCH_RELAYS } from "./const.js";
 import { logger } from "./debug.js";
+import { filterDeletedSnippets } from "./delete.js";
 import { normalizeLanguage } from "./languages.js";
-import { eventStore, getReadRelays, pool } from "./nostr.js";
-import { getPublicKey, getUserSearchRelays } from "./user.js";
+import {
+  eventStore,
+  getReadRelays,
+  getRelayAuthReport,
+  pool,
+  type RelayAuthReport,
+} from "./nostr.js";
+import {
+  applyPageFilter,
+  getRankedPageTime,
+  takePage,
+  takeRankedPage,
+  type PageOptions,
+} from "./pagination.js";
+import {
+  filterDeadRelays,
+  getRelayInfo,
+  recordRelayRequest,
+  type RelayInfo,
+} from "./relays.js";
+import {
+  rankSnippets,
+  type RankedSnippet,
+  type RelevanceScore,
+} from "./relevance.js";
+import { matchesParsedQuery, parseSearchQuery } from "./query.js";
+import { getPublicKey, getUserSearchRelays, resolvePubkey } from "./user.js";
 
 const log = logger.extend("search");
 
-export interface SearchFilters {
+/** How long to wait for the next event or the end of stored events from a relay */
+const SEARCH_TIMEOUT = 15_000;
+
+export interface SearchFilters extends PageOptions {
   query: string;
   tags?: string[];
   language?: string;
-  author?: string;
+  /** Authors as npub, hex public key or NIP-05 address */
+  authors?: string[];
   limit?: number;
-}
-
-export interface RelayInfo {
-  name?: string;
-  description?: string;
-  pubkey?: string;
-  contact?: string;
-  supported_nips?: number[];
-  software?: string;
-  version?: string;
-  limitation?: {
-    max_message_length?: number;
-    max_subscriptions?: number;
-    max_filters?: number;
-    max_limit?: number;
-    max_subid_length?: number;
-    max_event_tags?: number;
-    max_content_length?: number;
-    min_pow_difficulty?: number;
-    auth_required?: boolean;
-    payment_required?: boolean;
-  };
+  /** Only search the local snippet cache */
+  offline?: boolean;
+  /** Page through the most relevant (default) or the newest matches */
+  sort?: "relevance" | "date";
 }
 
 export interface SearchResult {
@@ -54,6 +59,14 @@ export interface SearchResult {
   total: number;
   searchedRelays: string[];
   nip50SupportedRelays: string[];
+  /** Number of results that came from the local snippet cache */
+  cachedResults: number;
+  /** Cursor for the next page, undefined when there are no more results */
+  cursor?: string;
+  /** Relevance scores of the results by event id */
+  scores: Record<string, RelevanceScore>;
+  /** Relays that asked for NIP-42 authentication */
+  auth: ({ relay: string } & RelayAuthReport)[];
 }
 
 /**
@@ -67,6 +80,12 @@ function supportsNIP50(relayInfo: RelayInfo): boolean {
  * Get search relays, checking NIP-50 support
  */
 async function getSearchRelays(): Promise<string[]> {
+  const profile = getRelayProfile();
+  if (profile) {
+    log(`Using search relays from the ${profile.name} profile`);
+    return profile.search;
+  }
+
   let searchRelays: string[] = [];
 
   try {
@@ -106,9 +125,7 @@ async function filterNIP50SupportedRelays(relays: string[]): Promise<string[]> {
 
   // Check each relay for NIP-50 support
   const relayChecks = relays.map(async (relay) => {
-    const relayInfo = await firstValueFrom(
-      pool.relay(relay).information$.pipe(endWith(null)),
-    );
+    const relayInfo = await getRelayInfo(relay);
     if (relayInfo && supportsNIP50(relayInfo)) {
       supportedRelays.push(relay);
       log(`✓ ${relay} supports NIP-50`);
@@ -125,147 +142,268 @@ async function filterNIP50SupportedRelays(relays: string[]): Promise<string[]> {
   return supportedRelays;
 }
 
+/**
+ * Get the page options for relay filters. Relevance pages rank every match, so
+ * only date pages narrow the filter down to the cursor
+ */
+function getFilterPage(filters: SearchFilters): PageOptions {
+  return filters.sort === "date"
+    ? filters
+    : { since: filters.since, until: filters.until };
+}
+
+/**
+ * Request events from each relay on its own, recording the outcome and latency
+ * of every relay. Relays that fail still return the events they sent
+ */
+async function requestSearchEvents(
+  relays: string[],
+  filter: Filter,
+): Promise<NostrEvent[]> {
+  const results = await Promise.all(
+    relays.map(async (relay) => {
+      const events: NostrEvent[] = [];
+      try {
+        await recordRelayRequest(relay, () =>
+          lastValueFrom(
+            pool
+              .relay(relay)
+              .request(filter)
+              .pipe(
+                timeout(SEARCH_TIMEOUT),
+                // Add to the store here since mapEventsToStore hides relay errors
+                tap((event) => {
+                  const stored = eventStore.add(event, relay);
+                  if (stored) events.push(stored);
+                }),
+              ),
+            { defaultValue: undefined },
+          ),
+        );
+      } catch (error) {
+        log(`   Search request to ${relay} failed: ${error}`);
+      }
+      return events;
+    }),
+  );
+
+  return results.flat();
+}
+
 /**
  * Build Nostr filter for search with NIP-50 support
  */
 function buildSearchFilter(filters: SearchFilters): Filter {
   const nostrFilter: Filter & { search?: string } = {
     kinds: [1337], // Code snippet kind from NIP-C0
-    search: filters.query, // NIP-50 search field
     // Don't set limit in nostr filter. we want more data from the relay and then filter it down
     // limit: filters.limit || 10,
   };
 
+  // NIP-50 search field, queries with only structured filters match everything
+  if (filters.query) nostrFilter.search = filters.query;
+
   // Add optional filters
   if (filters.language) nostrFilter["#l"] = [filters.language];
 
   if (filters.tags && filters.tags.length > 0)
     nostrFilter["#t"] = filters.tags.map((tag) => tag.toLowerCase());
 
-  if (filters.author) {
-    // Support both hex pubkey and npub format
-    let authorPubkey = filters.author;
-    if (filters.author.startsWith("npub1")) {
-      try {
-        const { nip19 } = require("nostr-tools");
-        const decoded = nip19.decode(filters.author);
-        if (decoded.type === "npub") {
-          authorPubkey = decoded.data;
-        }
-      } catch (error) {
-        log(`Failed to decode npub: ${error}`);
-      }
-    }
-    nostrFilter.authors = [authorPubkey];
-  }
+  if (filters.authors && filters.authors.length > 0)
+    nostrFilter.authors = filters.authors;
+
+  return applyPageFilter(nostrFilter, getFilterPage(filters));
+}
+
+/**
+ * Build a basic Nostr filter without the NIP-50 search field
+ */
+function buildBasicFilter(filters: SearchFilters): Filter {
+  const basicFilter: Filter = {
+    kinds: [1337],
+  };
+
+  // Add optional filters
+  if (filters.language) basicFilter["#l"] = [filters.language];
 
-  return nostrFilter;
+  if (filters.tags && filters.tags.length > 0)
+    basicFilter["#t"] = filters.tags.map((tag) => tag.toLowerCase());
+
+  if (filters.authors && filters.authors.length > 0)
+    basicFilter.authors = filters.authors;
+
+  return applyPageFilter(basicFilter, getFilterPage(filters));
 }
 
 /**
- * Search for code snippets using NIP-50 and fallback search
+ * Search the local snippet index without touching the network
+ */
+function searchCachedEvents(filters: SearchFilters): NostrEvent[] {
+  const matchedEvents = searchCachedSnippets(
+    filters.query,
+    buildBasicFilter(filters),
+  );
+
+  log(`   Local index search found ${matchedEvents.length} snippets`);
+  return matchedEvents;
+}
+
+/**
+ * Search for code snippets using the local cache, NIP-50 and fallback search
  */
 export async function searchCodeSnippets(
   filters: SearchFilters,
   extraRelays?: string[],
 ): Promise<SearchResult> {
-  // Normalize input
-  if (filters.author) {
-    const key = normalizeToPubkey(filters.author);
-    if (!key) throw new Error("Invalid author");
-    filters.author = key;
-  }
-  if (filters.language)
-    filters.language = normalizeLanguage(filters.language) || filters.language;
-
   log(`🔍 Searching for: "${filters.query}"`);
-  if (filters.language) log(`   Language: ${filters.language}`);
-  if (filters.tags) log(`   Tags: ${filters.tags.join(", ")}`);
-  if (filters.author) log(`   Author: ${filters.author}`);
 
-  try {
-    // Get search relays
-    const searchRelays = await getSearchRelays();
-    const readRelays = await getReadRelays();
+  // Move the structured parts of the query into the filters
+  const parsed = parseSearchQuery(filters.query);
+  const since = [filters.since, parsed.since].filter((t) => t !== undefined);
+  const until = [filters.until, parsed.until].filter((t) => t !== undefined);
+  const language = filters.language || parsed.language;
+
+  filters = {
+    ...filters,
+    query: parsed.text,
+    language: language ? normalizeLanguage(language) || language : undefined,
+    tags: [...(filters.tags ?? []), ...parsed.tags],
+    authors: await Promise.all(
+      [...(filters.authors ?? []), ...parsed.authors].map(resolvePubkey),
+    ),
+    since: since.length > 0 ? Math.max(...since) : undefined,
+    until: until.length > 0 ? Math.min(...until) : undefined,
+  };
 
-    const relays = mergeRelaySets(searchRelays, readRelays, extraRelays);
+  if (filters.query) log(`   Text: ${filters.query}`);
+  if (filters.language) log(`   Language: ${filters.language}`);
+  if (filters.tags?.length) log(`   Tags: ${filters.tags.join(", ")}`);
+  if (filters.authors?.length) log(`   Authors: ${filters.authors.join(", ")}`);
 
-    if (relays.length === 0) throw new Error("No search relays available");
+  // Ranked results from the local index are available straight away
+  const cachedEvents = searchCachedEvents(filters);
 
-    // Filter relays that support NIP-50
-    const nip50SupportedRelays = await filterNIP50SupportedRelays(relays);
-    const nonNip50Relays = relays.filter(
-      (relay) => !nip50SupportedRelays.includes(relay),
-    );
+  let relayEvents: NostrEvent[] = [];
+  let searchRelays: string[] = [];
+  let nip50SupportedRelays: string[] = [];
+  let relays: string[] = [];
+
+  if (!filters.offline) {
+    try {
+      // Get search relays
+      searchRelays = await getSearchRelays();
+      const readRelays = await getReadRelays();
+
+      // Skip relays that have been failing recently
+      relays = filterDeadRelays(
+        mergeRelaySets(searchRelays, readRelays, extraRelays),
+      );
 
-    log(
-      `   NIP-50 relays: ${nip50SupportedRelays.length}, Fallback relays: ${nonNip50Relays.length}`,
-    );
+      if (relays.length === 0) throw new Error("No search relays available");
 
-    // Execute searches in parallel
-    const searchPromises: Promise<NostrEvent[]>[] = [];
+      // Filter relays that support NIP-50
+      nip50SupportedRelays = await filterNIP50SupportedRelays(relays);
+      const nonNip50Relays = relays.filter(
+        (relay) => !nip50SupportedRelays.includes(relay),
+      );
 
-    // Search non-NIP-50 relays with fallback method if any
-    if (nonNip50Relays.length > 0) {
       log(
-        `   Searching ${nonNip50Relays.length} non-NIP-50 relays with fallback: ${nonNip50Relays.join(", ")}`,
+        `   NIP-50 relays: ${nip50SupportedRelays.length}, Fallback relays: ${nonNip50Relays.length}`,
       );
 
-      const fallbackPromise = fallbackSearchEvents(filters, nonNip50Relays);
-      searchPromises.push(fallbackPromise);
-    }
+      // Execute searches in parallel
+      const searchPromises: Promise<NostrEvent[]>[] = [];
 
-    // Search NIP-50 supporting relays if any
-    if (nip50SupportedRelays.length > 0) {
-      log(
-        `   Searching ${nip50SupportedRelays.length} NIP-50 relays: ${nip50SupportedRelays.join(", ")}`,
-      );
+      // Search non-NIP-50 relays with fallback method if any
+      if (nonNip50Relays.length > 0) {
+        log(
+          `   Searching ${nonNip50Relays.length} non-NIP-50 relays with fallback: ${nonNip50Relays.join(", ")}`,
+        );
 
-      const searchFilter = buildSearchFilter(filters);
-
-      const nip50Promise = lastValueFrom(
-        pool.request(nip50SupportedRelays, searchFilter).pipe(
-          // Deduplicate events
-          mapEventsToStore(eventStore),
-          // Map to timeline
-          mapEventsToTimeline(),
-          // Timeout after 15 seconds for search
-          simpleTimeout(15_000),
-          // Start with an empty array if no events are found
-          startWith([]),
-        ),
-      );
-      searchPromises.push(nip50Promise);
-    }
+        const fallbackPromise = fallbackSearchEvents(filters, nonNip50Relays);
+        searchPromises.push(fallbackPromise);
+      }
 
-    // Wait for all searches to complete
-    const searchResults = await Promise.all(searchPromises);
+      // Search NIP-50 supporting relays if any
+      if (nip50SupportedRelays.length > 0) {
+        log(
+          `   Searching ${nip50SupportedRelays.length} NIP-50 relays: ${nip50SupportedRelays.join(", ")}`,
+        );
 
-    // Combine and deduplicate results
-    const seen = new Set<string>();
-    const allEvents = searchResults.flat().filter((e) => {
-      if (seen.has(e.id)) return false;
-      seen.add(e.id);
-      return true;
-    });
+        const searchFilter = buildSearchFilter(filters);
 
-    // Apply final limit
-    const finalEvents = filters.limit
-      ? allEvents.slice(0, filters.limit)
-      : allEvents;
+        const nip50Promise = requestSearchEvents(
+          nip50SupportedRelays,
+          searchFilter,
+        );
+        searchPromises.push(nip50Promise);
+      }
 
-    log(`   Combined results: ${finalEvents.length} snippets`);
+      // Wait for all searches to complete
+      const searchResults = await Promise.all(searchPromises);
+      relayEvents = searchResults.flat();
+    } catch (error) {
+      // Only fail the search if there is nothing in the cache to fall back to
+      if (cachedEvents.length === 0) {
+        log(`   Error searching snippets: ${error}`);
+        throw error;
+      }
 
-    return {
-      events: finalEvents,
-      total: finalEvents.length,
-      searchedRelays: searchRelays,
-      nip50SupportedRelays,
-    };
-  } catch (error) {
-    log(`   Error searching snippets: ${error}`);
-    throw error;
+      log(`   Relay search failed, using cached results: ${error}`);
+    }
+  }
+
+  // Merge the cache and relay results
+  const seen = new Set<string>();
+  const mergedEvents = [...cachedEvents, ...relayEvents].filter((e) => {
+    if (seen.has(e.id)) return false;
+    seen.add(e.id);
+    // Apply the parts of the query relays can't filter on
+    return matchesParsedQuery(e, parsed);
+  });
+
+  // Hide snippets the author has asked to delete
+  const allEvents = await filterDeletedSnippets(mergedEvents, !filters.offline);
+
+  let finalRanked: RankedSnippet[];
+  let finalEvents: NostrEvent[];
+  let cursor: string | undefined;
+  if (filters.sort === "date") {
+    // Page through the newest matches and only score the page
+    const page = takePage(allEvents, filters.limit, filters);
+    finalRanked = rankSnippets(page.events, filters.query);
+    finalEvents = page.events;
+    cursor = page.cursor;
+  } else {
+    // Rank every match by relevance and page through the ranking
+    const ranked = rankSnippets(
+      allEvents,
+      filters.query,
+      getRankedPageTime(filters),
+    );
+    const page = takeRankedPage(ranked, filters.limit, filters);
+    finalRanked = page.items;
+    finalEvents = page.items.map(({ event }) => event);
+    cursor = page.cursor;
   }
+
+  log(`   Combined results: ${finalEvents.length} snippets`);
+
+  return {
+    events: finalEvents,
+    total: finalEvents.length,
+    searchedRelays: searchRelays,
+    nip50SupportedRelays,
+    cachedResults: finalEvents.filter((e) => cachedEvents.includes(e)).length,
+    cursor,
+    auth: relays.flatMap((relay) => {
+      const report = getRelayAuthReport(relay);
+      return report ? [{ relay, ...report }] : [];
+    }),
+    scores: Object.fromEntries(
+      finalRanked.map(({ event, score }) => [event.id, score]),
+    ),
+  };
 }
 
 /**
@@ -325,38 +463,12 @@ async function fallbackSearchEvents(
   log("🔄 Using fallback search for non-NIP-50 relays");
 
   // Build basic filter without search field
-  const basicFilter: Filter = {
-    kinds: [1337],
-  };
-
-  // Add optional filters
-  if (filters.language) basicFilter["#l"] = [filters.language];
-
-  if (filters.tags && filters.tags.length > 0)
-    basicFilter["#t"] = filters.tags.map((tag) => tag.toLowerCase());
-
-  if (filters.author) {
-    const key = normalizeToPubkey(filters.author);
-    if (!key) throw new Error("Invalid author");
-    const authorPubkey = key;
-    basicFilter.authors = [authorPubkey];
-  }
+  const basicFilter = buildBasicFilter(filters);
 
   log(`   Fallback filter: ${JSON.stringify(basicFilter)}`);
 
   // Execute basic search
-  const events = await lastValueFrom(
-    pool.request(relays, basicFilter).pipe(
-      // Deduplicate events
-      mapEventsToStore(eventStore),
-      // Map to timeline
-      mapEventsToTimeline(),
-      // Timeout after 15 seconds for search
-      simpleTimeout(15_000),
-      // Start with an empty array if no events are found
-      startWith([]),
-    ),
-  );
+  const events = await requestSearchEvents(relays, basicFilter);
 
   // Client-side fuzzy filtering using FlexSearch
   const filteredEvents = await fuzzySearchEvents(events, filters.query);
@@ -384,5 +496,8 @@ async function fallbackSearch(
     total: limitedEvents.length,
     searchedRelays: relays,
     nip50SupportedRelays: [],
+    cachedResults: 0,
+    scores: {},
+    auth: [],
   };
 }
@@ -0,0 +1,177 @@
+export type SecretSeverity = "block" | "warn";
+
+export interface SecretFinding {
+  /** Id of the rule that matched */
+  rule: string;
+  /** Human readable name of the secret type */
+  description: string;
+  severity: SecretSeverity;
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** Redacted version of the matched text */
+  match: string;
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  severity: SecretSeverity;
+  pattern: RegExp;
+  /** Return false to ignore a match (e.g. placeholder values) */
+  validate?: (match: RegExpExecArray) => boolean;
+}
+
+// Values that are clearly examples and not real secrets
+const PLACEHOLDER_VALUE =
+  /^(?:<.*>|\$\{?.*\}?|x+|\*+|\.+|changeme|example.*|your[-_].*|my[-_].*|replace[-_]?me|todo|null|none|undefined|true|false|process\.env.*|os\.environ.*)$/i;
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: "private-key",
+    description: "Private key block",
+    severity: "block",
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: "nostr-nsec",
+    description: "Nostr private key (nsec)",
+    severity: "block",
+    pattern: /\bnsec1[02-9ac-hj-np-z]{58}\b/g,
+  },
+  {
+    id: "hex-private-key",
+    description: "Hex private key assignment",
+    severity: "block",
+    pattern:
+      /\b(?:priv(?:ate)?[-_]?key|secret[-_]?key|seckey|nsec)["']?\s*[:=]\s*["'`]?([0-9a-f]{64})\b/gi,
+  },
+  {
+    id: "aws-access-key",
+    description: "AWS access key ID",
+    severity: "block",
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: "aws-secret-key",
+    description: "AWS secret access key",
+    severity: "block",
+    pattern:
+      /\baws[-_]?secret[-_]?(?:access[-_]?)?key["']?\s*[:=]\s*["'`]?([A-Za-z0-9/+=]{40})\b/gi,
+  },
+  {
+    id: "github-token",
+    description: "GitHub token",
+    severity: "block",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+  },
+  {
+    id: "stripe-key",
+    description: "Stripe secret key",
+    severity: "block",
+    pattern: /\b(?:sk|rk)_(?:live|test)_[0-9a-zA-Z]{24,}\b/g,
+  },
+  {
+    id: "env-assignment",
+    description: "Secret in .env style assignment",
+    severity: "warn",
+    pattern:
+      /^[ \t]*(?:export[ \t]+)?([A-Z][A-Z0-9_]*(?:SECRET|TOKEN|PASSWORD|PASSWD|PWD|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|CREDENTIALS?)[A-Z0-9_]*)[ \t]*=[ \t]*["']?([^\s"'#]+)/gm,
+    validate: (match) => !PLACEHOLDER_VALUE.test(match[2]!),
+  },
+  {
+    id: "high-entropy",
+    description: "High entropy string",
+    severity: "warn",
+    pattern: /["'`]([A-Za-z0-9+/_=-]{32,})["'`]/g,
+    validate: (match) => isLikelySecret(match[1]!),
+  },
+];
+
+/** Calculate the Shannon entropy (bits per character) of a string */
+export function getShannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/** Check if a quoted string looks like a random token rather than text or an id */
+function isLikelySecret(value: string): boolean {
+  // Hex strings are usually event ids, pubkeys or hashes
+  if (/^[0-9a-f]+$/i.test(value)) return false;
+  // Paths, identifiers and words
+  if (!/[0-9]/.test(value) || !/[a-z]/.test(value) || !/[A-Z]/.test(value))
+    return false;
+
+  return getShannonEntropy(value) >= 4.5;
+}
+
+/** Replace most of a matched secret so it is not echoed back in full */
+function redact(value: string): string {
+  const visible = Math.min(6, Math.floor(value.length / 4));
+  return `${value.slice(0, visible)}…`;
+}
+
+/**
+ * Scan content for private keys, API tokens and other secrets before publishing
+ * @returns The findings sorted by line number
+ */
+export function scanForSecrets(content: string): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const spans: [number, number][] = [];
+
+  // Offset of the start of every line, used to turn match indexes into positions
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  for (const rule of SECRET_RULES) {
+    for (const match of content.matchAll(rule.pattern)) {
+      if (rule.validate && !rule.validate(match)) continue;
+
+      // Only report the first rule that matches a piece of text
+      const index = match.index!;
+      const end = index + match[0].length;
+      if (spans.some(([start, stop]) => index < stop && end > start)) continue;
+      spans.push([index, end]);
+
+      let line = lineStarts.length - 1;
+      while (lineStarts[line]! > index) line--;
+
+      findings.push({
+        rule: rule.id,
+        description: rule.description,
+        severity: rule.severity,
+        line: line + 1,
+        column: index - lineStarts[line]! + 1,
+        // Rules with capture groups capture the secret value last
+        match: redact(match[match.length - 1] ?? match[0]),
+      });
+    }
+  }
+
+  return findings.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/** Check if any of the findings should prevent publishing */
+export function hasBlockingSecrets(findings: SecretFinding[]): boolean {
+  return findings.some((finding) => finding.severity === "block");
+}
+
+/** Format secret findings as a list of lines for display */
+export function formatSecretFindings(findings: SecretFinding[]): string {
+  return findings
+    .map(
+      (finding) =>
+        `${finding.severity === "block" ? "⛔" : "⚠️ "} Line ${finding.line}: ${finding.description} (${finding.match})`,
+    )
+    .join("\n");
+}
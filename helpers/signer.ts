@@ -4,40 +4,168 @@ import {
   SimpleSigner,
   type ISigner,
 } from "applesauce-signers";
-import { deletePassword, getPassword, setPassword } from "keytar";
-import { getConfigPath } from "./config";
+import { join } from "path";
+import {
+  getConfigPath,
+  getGlobalConfigPath,
+  loadConfig,
+  PROJECT_CONFIG_FILE,
+} from "./config";
 import { logger } from "./debug.js";
+import {
+  deleteFromKeyFile,
+  getKeyFilePath,
+  listKeyFile,
+  loadFromKeyFile,
+  saveToKeyFile,
+} from "./keyfile.js";
 import { pool } from "./nostr.js";
 import { registerShutdownHandler } from "./shutdown.js";
 
 const log = logger.extend("signer");
 
+/** Keyring service that signers are stored under */
+const KEYRING_SERVICE = "nostr-code-snippets";
+
+/** Prefix of the keyring entries of named accounts */
+const ACCOUNT_PREFIX = "account:";
+
+/** Environment variable to store signers in the encrypted key file even if a keyring exists */
+export const SIGNER_BACKEND_ENV = "SIGNER_BACKEND";
+
+/** Where signers are stored: the system keyring or the NIP-49 encrypted key file */
+export type SignerBackend = "keyring" | "file";
+
+type Keyring = typeof import("keytar");
+
+// The system keyring, null when it is unavailable
+let keyring: Keyring | null | undefined;
+
 let signerInstance: ISigner | null = null;
 
+/** Signers of named accounts that have been used */
+const accountSigners = new Map<string, ISigner>();
+
+export interface Account {
+  name: string;
+  pubkey: string;
+}
+
+/** Close the connection of a NIP-46 signer */
+async function closeSigner(signer: ISigner): Promise<void> {
+  if (!(signer instanceof NostrConnectSigner)) return;
+
+  log("Closing NostrConnect signer connection");
+  try {
+    await signer.close();
+    log("NostrConnect signer connection closed successfully");
+  } catch (error) {
+    log("Error closing NostrConnect signer:", error);
+  }
+}
+
 // Register shutdown handler to clean up signer connections
 registerShutdownHandler("signer", async () => {
-  if (signerInstance && signerInstance instanceof NostrConnectSigner) {
-    log("Closing NostrConnect signer connection");
-    try {
-      await signerInstance.close();
-      log("NostrConnect signer connection closed successfully");
-    } catch (error) {
-      log("Error closing NostrConnect signer:", error);
-    }
-  }
+  if (signerInstance) await closeSigner(signerInstance);
   signerInstance = null;
+
+  for (const signer of accountSigners.values()) await closeSigner(signer);
+  accountSigners.clear();
 });
 
 /**
- * Gets a singleton ISigner instance based on the "signer" config field or "SIGNER" env var.
- * Supports NIP-19 nsec and nbunksec formats.
+ * Gets a singleton ISigner instance for an account, or from the "SIGNER" env var
+ * or keyring when no account is selected. Supports NIP-19 nsec and nbunksec formats.
+ * @param account - Name of the account, defaults to the account selected in the config
  */
-export async function getSigner(): Promise<ISigner> {
+export async function getSigner(
+  account = loadConfig().account,
+): Promise<ISigner> {
+  if (account) {
+    let signer = accountSigners.get(account);
+    if (!signer) {
+      signer = await createAccountSigner(account);
+      accountSigners.set(account, signer);
+    }
+    return signer;
+  }
+
   if (!signerInstance) signerInstance = await createSignerInstance();
 
   return signerInstance;
 }
 
+/**
+ * Load the system keyring. Fails on headless servers and in containers where
+ * keytar or the secret service is missing
+ */
+async function getKeyring(): Promise<Keyring | null> {
+  if (keyring !== undefined) return keyring;
+
+  if (process.env[SIGNER_BACKEND_ENV] === "file") return (keyring = null);
+
+  try {
+    const module = await import("keytar");
+    // Listing credentials fails when there is no secret service to talk to
+    await module.findCredentials(KEYRING_SERVICE);
+    keyring = module;
+  } catch (error) {
+    log(
+      `System keyring unavailable, using the encrypted key file: ${error instanceof Error ? error.message : error}`,
+    );
+    keyring = null;
+  }
+
+  return keyring;
+}
+
+/**
+ * Get where signers are stored
+ */
+export async function getSignerBackend(): Promise<SignerBackend> {
+  return (await getKeyring()) ? "keyring" : "file";
+}
+
+/**
+ * Describe where the signer in use comes from, for signer --status
+ */
+export async function describeSignerStorage(): Promise<string> {
+  if (!loadConfig().account && process.env.SIGNER)
+    return "SIGNER environment variable";
+
+  return (await getSignerBackend()) === "keyring"
+    ? "system keyring"
+    : `encrypted key file (${getKeyFilePath()})`;
+}
+
+/** Store a signer value in the keyring or the key file */
+async function storeSignerValue(key: string, value: string): Promise<void> {
+  const store = await getKeyring();
+  if (store) await store.setPassword(KEYRING_SERVICE, key, value);
+  else await saveToKeyFile(key, value);
+}
+
+/** Read a signer value from the keyring or the key file */
+async function loadSignerValue(key: string): Promise<string | null> {
+  const store = await getKeyring();
+  if (store) return await store.getPassword(KEYRING_SERVICE, key);
+  return await loadFromKeyFile(key);
+}
+
+/** Check if a signer value is stored without unlocking the key file */
+async function hasSignerValue(key: string): Promise<boolean> {
+  const store = await getKeyring();
+  if (store) return (await store.getPassword(KEYRING_SERVICE, key)) !== null;
+  return listKeyFile().some((entry) => entry.key === key);
+}
+
+/** Remove a signer value from the keyring or the key file */
+async function deleteSignerValue(key: string): Promise<boolean> {
+  const store = await getKeyring();
+  if (store) return await store.deletePassword(KEYRING_SERVICE, key);
+  return deleteFromKeyFile(key);
+}
+
 /**
  * Creates a signer instance from a signer value (nsec or nbunksec format)
  */
@@ -78,7 +206,7 @@ export async function setSignerInKeyring(signerValue: string): Promise<void> {
     // Store the signer in the system keyring using the config file path as username
     const configPath = getConfigPath();
     log(`Setting signer in keyring for config file: ${configPath}`);
-    await setPassword("nostr-code-snippets", configPath, signerValue);
+    await storeSignerValue(configPath, signerValue);
 
     // Set the signer instance
     signerInstance = signer;
@@ -137,7 +265,7 @@ export async function clearSignerFromKeyring(): Promise<void> {
     log(`Clearing signer from keyring for config file: ${configPath}`);
 
     // Delete the signer from keyring
-    const deleted = await deletePassword("nostr-code-snippets", configPath);
+    const deleted = await deleteSignerValue(configPath);
 
     if (deleted) {
       log("Signer successfully cleared from keyring");
@@ -154,19 +282,156 @@ export async function clearSignerFromKeyring(): Promise<void> {
   }
 }
 
+/** Keys the default signer may be stored under, in the order they are tried */
+function getDefaultSignerKeys(): Set<string> {
+  return new Set([
+    getConfigPath(),
+    getGlobalConfigPath(),
+    join(process.cwd(), PROJECT_CONFIG_FILE),
+  ]);
+}
+
+/**
+ * Check if there is a signer to use, without unlocking or connecting to it
+ * @param account - Name of the account, defaults to the account selected in the config
+ */
+export async function hasSigner(
+  account = loadConfig().account,
+): Promise<boolean> {
+  if (account) return await hasSignerValue(ACCOUNT_PREFIX + account);
+  if (process.env.SIGNER) return true;
+
+  for (const key of getDefaultSignerKeys())
+    if (await hasSignerValue(key)) return true;
+
+  return false;
+}
+
 /**
- * Gets the signer from the system keyring
+ * Gets the signer from the system keyring. Falls back to the entry of the global
+ * config file and the entry older versions stored for the current directory
  */
 async function getKeyringSigner(): Promise<string | null> {
   try {
-    const configPath = getConfigPath();
-    log(`Getting signer from keyring for config file: ${configPath}`);
-    const signerValue = await getPassword("nostr-code-snippets", configPath);
-    return signerValue;
+    for (const configPath of getDefaultSignerKeys()) {
+      log(`Getting signer from keyring for config file: ${configPath}`);
+      const signerValue = await loadSignerValue(configPath);
+      if (signerValue) return signerValue;
+    }
+    return null;
   } catch (error) {
+    // A wrong passphrase for the key file should not look like a missing signer
+    if ((await getSignerBackend()) === "file") throw error;
+
     log(
       `⚠️ Failed to get signer from keyring: ${error instanceof Error ? error.message : error}`,
     );
     return null;
   }
 }
+
+/** Check that an account name can be stored in the keyring and config */
+function validateAccountName(name: string): void {
+  if (!/^[\w.-]+$/.test(name))
+    throw new Error(
+      `Invalid account name: ${name}. Use letters, numbers, _, - and .`,
+    );
+}
+
+/**
+ * Get the public key of a signer value without connecting to a bunker
+ */
+async function getSignerValuePubkey(signerValue: string): Promise<string> {
+  if (signerValue.startsWith("nbunksec"))
+    return decodeNbunksec(signerValue).pubkey;
+
+  return await SimpleSigner.fromKey(signerValue).getPublicKey();
+}
+
+/**
+ * Creates the signer of a named account from the keyring
+ */
+async function createAccountSigner(name: string): Promise<ISigner> {
+  log(`Getting signer for account: ${name}`);
+  const signerValue = await loadSignerValue(ACCOUNT_PREFIX + name);
+  if (!signerValue)
+    throw new Error(
+      `Unknown account: ${name}. Add it with: nostr-code-snippets account add ${name}`,
+    );
+
+  return await createSignerFromValue(signerValue);
+}
+
+/**
+ * Stores a named account in the system keyring
+ * @returns The account with its public key
+ */
+export async function addAccount(
+  name: string,
+  signerValue: string,
+): Promise<Account> {
+  validateAccountName(name);
+
+  // Create a signer instance to validate it works
+  const signer = await createSignerFromValue(signerValue);
+  await closeSigner(signer);
+  const pubkey = await getSignerValuePubkey(signerValue);
+
+  log(`Storing account in keyring: ${name}`);
+  await storeSignerValue(ACCOUNT_PREFIX + name, signerValue);
+
+  // Drop the old signer if the account was replaced
+  const previous = accountSigners.get(name);
+  if (previous) await closeSigner(previous);
+  accountSigners.delete(name);
+
+  return { name, pubkey };
+}
+
+/**
+ * Removes a named account from the system keyring
+ * @returns false if the account doesn't exist
+ */
+export async function removeAccount(name: string): Promise<boolean> {
+  log(`Removing account from keyring: ${name}`);
+  const deleted = await deleteSignerValue(ACCOUNT_PREFIX + name);
+
+  const signer = accountSigners.get(name);
+  if (signer) await closeSigner(signer);
+  accountSigners.delete(name);
+
+  return deleted;
+}
+
+/**
+ * Gets every named account stored in the system keyring
+ */
+export async function getAccounts(): Promise<Account[]> {
+  const store = await getKeyring();
+
+  const accounts: Account[] = [];
+  if (store) {
+    for (const { account, password } of await store.findCredentials(
+      KEYRING_SERVICE,
+    )) {
+      if (!account.startsWith(ACCOUNT_PREFIX)) continue;
+
+      try {
+        accounts.push({
+          name: account.substring(ACCOUNT_PREFIX.length),
+          pubkey: await getSignerValuePubkey(password),
+        });
+      } catch (error) {
+        log(`Skipping invalid account ${account}: ${error}`);
+      }
+    }
+  } else {
+    // The key file keeps the public keys readable without the passphrase
+    for (const { key, pubkey } of listKeyFile()) {
+      if (key.startsWith(ACCOUNT_PREFIX))
+        accounts.push({ name: key.substring(ACCOUNT_PREFIX.length), pubkey });
+    }
+  }
+
+  return accounts.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -1,4 +1,5 @@
 import type { NostrEvent } from "nostr-tools";
+import { getFileExtension } from "./languages.js";
 
 /**
  * Helper functions for parsing NIP-C0 code snippet events
@@ -65,6 +66,26 @@ export function getSnippetCreatedAt(event: NostrEvent): Date {
   return new Date(event.created_at * 1000);
 }
 
+/** Get a safe filename for saving the snippet to disk */
+export function getSnippetFileName(event: NostrEvent): string {
+  const extension =
+    getSnippetExtension(event)?.replace(/^\./, "") ||
+    getFileExtension(getSnippetLanguage(event));
+
+  // Names of bundle files contain directories, only keep the file name
+  const name = getSnippetName(event)
+    ?.split(/[\\/]/)
+    .pop()
+    ?.trim()
+    .replace(/[^\w.-]+/g, "-");
+
+  if (!name || /^\.+$/.test(name))
+    return `snippet-${event.id.substring(0, 8)}.${extension}`;
+
+  // Keep names that already end with an extension
+  return /\.[a-z0-9]+$/i.test(name) ? name : `${name}.${extension}`;
+}
+
 /** Get the content of the code snippet */
 export function getSnippetContent(event: NostrEvent): string {
   return event.content;
@@ -84,3 +105,46 @@ export function snippetMatchesTag(event: NostrEvent, tag: string): boolean {
   const displayTags = getSnippetTags(event);
   return displayTags.some((t) => t.toLowerCase().includes(tag.toLowerCase()));
 }
+
+/** Get the id of the original snippet this event is a version of */
+export function getSnippetRootId(event: NostrEvent): string {
+  return (
+    event.tags.find((t) => t[0] === "e" && t[3] === "root")?.[1] || event.id
+  );
+}
+
+/** Get the id of the previous version this snippet replaces */
+export function getSnippetReplaces(event: NostrEvent): string | undefined {
+  return event.tags.find((t) => t[0] === "e" && t[3] === "replaces")?.[1];
+}
+
+/** Check if a snippet is an edited version of another snippet */
+export function isSnippetVersion(event: NostrEvent): boolean {
+  return getSnippetReplaces(event) !== undefined;
+}
+
+/** Create the tags that mark a new snippet as the next version of another */
+export function createSnippetVersionTags(previous: NostrEvent): string[][] {
+  return [
+    ["e", getSnippetRootId(previous), "", "root"],
+    ["e", previous.id, "", "replaces"],
+  ];
+}
+
+/** Collapse multiple versions of the same snippet down to the latest version */
+export function collapseSnippetVersions(events: NostrEvent[]): NostrEvent[] {
+  const latest = new Map<string, NostrEvent>();
+
+  for (const event of events) {
+    // Versions are only valid when published by the same author
+    const key = `${event.pubkey}:${getSnippetRootId(event)}`;
+    const existing = latest.get(key);
+    if (!existing || event.created_at > existing.created_at)
+      latest.set(key, event);
+  }
+
+  return events.filter(
+    (event) =>
+      latest.get(`${event.pubkey}:${getSnippetRootId(event)}`) === event,
+  );
+}
@@ -100,6 +100,23 @@ export function formatCodeBlock(
     .join("\n");
 }
 
+/**
+ * Color the added and removed lines of a unified diff
+ */
+export function highlightDiff(diff: string): string {
+  return diff
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---"))
+        return chalk.bold(line);
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return line;
+    })
+    .join("\n");
+}
+
 /**
  * Format a code snippet preview with syntax highlighting
  */
@@ -1,11 +1,17 @@
 import { defined, simpleTimeout } from "applesauce-core";
+import {
+  getContacts,
+  getDisplayName,
+  normalizeToPubkey,
+} from "applesauce-core/helpers";
 import { getRelaysFromList } from "applesauce-common/helpers/lists";
 import { type ISigner } from "applesauce-signers";
 import { kinds } from "nostr-tools";
-import type { ProfilePointer } from "nostr-tools/nip19";
+import { npubEncode, type ProfilePointer } from "nostr-tools/nip19";
 import { firstValueFrom, map } from "rxjs";
 import { loadConfig } from "./config";
 import { logger } from "./debug";
+import { isNip05Address, resolveNip05 } from "./nip05.js";
 import { eventStore, getReadRelays } from "./nostr";
 import { getSigner } from "./signer";
 
@@ -13,14 +19,21 @@ const log = logger.extend("user");
 
 const pubkeyCache = new Map<ISigner, string>();
 
-/** Get the current user's public key - tries signer first, then falls back to config */
-export async function getPublicKey(): Promise<string | undefined> {
+/**
+ * Get the current user's public key - the pubkey in the config, or the public key
+ * of the signer. When an account is selected its public key is always used
+ * @param account - Name of the account, defaults to the account selected in the config
+ */
+export async function getPublicKey(
+  account?: string,
+): Promise<string | undefined> {
   const config = loadConfig();
-  if (config.pubkey) return config.pubkey;
+  account ??= config.account;
+  if (config.pubkey && !account) return config.pubkey;
 
   // Try to get pubkey from signer first
   try {
-    const signer = await getSigner();
+    const signer = await getSigner(account);
     if (pubkeyCache.has(signer)) return pubkeyCache.get(signer)!;
 
     log("Getting pubkey from active signer");
@@ -51,6 +64,19 @@ export async function getUserMailboxes(user: string | ProfilePointer) {
   );
 }
 
+/** Get the people a user follows from their kind 3 contact list */
+export async function getUserContacts(pubkey: string) {
+  const relays = await getReadRelays();
+
+  return await firstValueFrom(
+    eventStore.replaceable({ pubkey, relays, kind: kinds.Contacts }).pipe(
+      defined(),
+      map((e) => getContacts(e)),
+      simpleTimeout(5_000),
+    ),
+  );
+}
+
 /** Returns the list of the users search relays */
 export async function getUserSearchRelays(user: string | ProfilePointer) {
   const pubkey = typeof user === "string" ? user : user.pubkey;
@@ -66,3 +92,38 @@ export async function getUserSearchRelays(user: string | ProfilePointer) {
       ),
   );
 }
+
+/** Resolve an npub, nprofile, hex public key or NIP-05 address to a hex public key */
+export async function resolvePubkey(input: string): Promise<string> {
+  const trimmed = input.trim();
+
+  if (isNip05Address(trimmed)) {
+    const pubkey = await resolveNip05(trimmed);
+    if (!pubkey)
+      throw new Error(`Failed to resolve NIP-05 address: ${trimmed}`);
+    return pubkey;
+  }
+
+  let pubkey: string | null = null;
+  try {
+    pubkey = normalizeToPubkey(trimmed);
+  } catch {}
+
+  if (!pubkey)
+    throw new Error(
+      `Invalid user: expected an npub, hex public key or NIP-05 address (user@domain.com), got ${trimmed}`,
+    );
+  return pubkey;
+}
+
+/** Get the name from a users profile, falling back to a shortened npub */
+export async function getUserDisplayName(
+  user: string | ProfilePointer,
+): Promise<string> {
+  const pubkey = typeof user === "string" ? user : user.pubkey;
+  const fallback = `${npubEncode(pubkey).substring(0, 12)}...`;
+
+  return getProfile(user)
+    .then((profile) => getDisplayName(profile) || fallback)
+    .catch(() => fallback);
+}
@@ -0,0 +1,146 @@
+import { defined, mapEventsToStore, simpleTimeout } from "applesauce-core";
+import { type Filter, type NostrEvent } from "nostr-tools";
+import {
+  catchError,
+  EMPTY,
+  firstValueFrom,
+  lastValueFrom,
+  toArray,
+} from "rxjs";
+import { queryCachedEvents } from "./cache.js";
+import { logger } from "./debug.js";
+import { eventStore, getReadRelays, pool } from "./nostr.js";
+import { collapseSnippetVersions, getSnippetRootId } from "./snippet.js";
+
+const log = logger.extend("versions");
+
+/**
+ * Fetch every version of a code snippet, newest first
+ */
+export async function fetchSnippetHistory(
+  event: NostrEvent,
+): Promise<NostrEvent[]> {
+  const rootId = getSnippetRootId(event);
+  log(`Loading version history for ${rootId}`);
+
+  // All later versions reference the original snippet with a "root" e tag
+  const filter: Filter = {
+    kinds: [1337],
+    authors: [event.pubkey],
+    "#e": [rootId],
+  };
+
+  const cachedEvents = queryCachedEvents(filter);
+  const readRelays = await getReadRelays();
+  const relayEvents = await lastValueFrom(
+    pool.request(readRelays, filter).pipe(
+      mapEventsToStore(eventStore),
+      simpleTimeout(10_000),
+      toArray(),
+      catchError((error) => {
+        log(`Failed to load versions from relays: ${error}`);
+        return EMPTY;
+      }),
+    ),
+    { defaultValue: [] },
+  );
+
+  const versions = [event, ...cachedEvents, ...relayEvents];
+
+  // Include the original snippet if this is a later version
+  if (rootId !== event.id) {
+    const root = await firstValueFrom(
+      eventStore.event(rootId).pipe(defined(), simpleTimeout(5_000)),
+    ).catch(() => undefined);
+    if (root) versions.push(root);
+  }
+
+  const seen = new Set<string>();
+  const history = versions
+    .filter((e) => {
+      // Only the original author can publish new versions
+      if (e.pubkey !== event.pubkey || seen.has(e.id)) return false;
+      seen.add(e.id);
+      return getSnippetRootId(e) === rootId;
+    })
+    .sort((a, b) => b.created_at - a.created_at);
+
+  log(`Found ${history.length} versions of ${rootId}`);
+  return history;
+}
+
+/**
+ * Resolve a code snippet to the latest version published by its author
+ */
+export async function resolveLatestSnippet(
+  event: NostrEvent,
+): Promise<NostrEvent> {
+  const history = await fetchSnippetHistory(event);
+  return collapseSnippetVersions(history)[0] ?? event;
+}
+
+/**
+ * Remove snippets that have a newer version from the same author, so older
+ * versions don't reappear on later pages once the latest one has been shown
+ * @param events - The snippets to check
+ * @param checkRelays - Whether to ask relays for newer versions or only use the local cache
+ */
+export async function filterSupersededSnippets(
+  events: NostrEvent[],
+  checkRelays = true,
+): Promise<NostrEvent[]> {
+  if (events.length === 0) return events;
+
+  // Later versions reference the original snippet with a "root" e tag
+  const filter: Filter = {
+    kinds: [1337],
+    authors: Array.from(new Set(events.map((event) => event.pubkey))),
+    "#e": Array.from(new Set(events.map(getSnippetRootId))),
+  };
+
+  if (checkRelays) {
+    // Versions are saved to the local cache as they pass through the event store
+    const readRelays = await getReadRelays();
+    await lastValueFrom(
+      pool.request(readRelays, filter).pipe(
+        mapEventsToStore(eventStore),
+        simpleTimeout(10_000),
+        toArray(),
+        catchError((error) => {
+          log(`Failed to load newer versions: ${error}`);
+          return EMPTY;
+        }),
+      ),
+      { defaultValue: [] },
+    );
+  }
+
+  // Deleted versions are removed from the cache, so they never hide older ones
+  const latest = new Map<string, number>();
+  for (const version of queryCachedEvents(filter)) {
+    const key = `${version.pubkey}:${getSnippetRootId(version)}`;
+    latest.set(key, Math.max(latest.get(key) ?? 0, version.created_at));
+  }
+
+  const current = events.filter(
+    (event) =>
+      event.created_at >=
+      (latest.get(`${event.pubkey}:${getSnippetRootId(event)}`) ?? 0),
+  );
+  if (current.length < events.length)
+    log(`Hiding ${events.length - current.length} outdated versions`);
+
+  return current;
+}
+
+/**
+ * Get the older version that becomes the latest one when a single version is deleted
+ * @param history - Every version of the snippet, newest first
+ */
+export function getRevealedVersion(
+  history: NostrEvent[],
+  deleted: NostrEvent,
+): NostrEvent | undefined {
+  if (history[0]?.id !== deleted.id) return undefined;
+  return history.find((version) => version.id !== deleted.id);
+}
@@ -0,0 +1,76 @@
+import { mapEventsToStore } from "applesauce-core";
+import { mergeRelaySets } from "applesauce-core/helpers";
+import { onlyEvents } from "applesauce-relay";
+import type { Filter, NostrEvent } from "nostr-tools";
+import { defer, from, Observable, switchMap } from "rxjs";
+import { logger } from "./debug.js";
+import { normalizeLanguage } from "./languages.js";
+import { eventStore, getAuthorRelays, getReadRelays, pool } from "./nostr.js";
+
+const log = logger.extend("watch");
+
+export interface WatchFilters {
+  language?: string;
+  tags?: string[];
+  /** Hex public keys of the authors to watch */
+  authors?: string[];
+  /** Relays to subscribe to, defaults to the users read relays and the authors outboxes */
+  relays?: string[];
+}
+
+/**
+ * Build the relay filter for snippets published from now on
+ */
+export function createWatchFilter(filters: WatchFilters): Filter {
+  const filter: Filter = {
+    kinds: [1337],
+    since: Math.floor(Date.now() / 1000),
+  };
+
+  const language = filters.language
+    ? normalizeLanguage(filters.language) || filters.language
+    : undefined;
+  if (language) filter["#l"] = [language];
+  if (filters.tags && filters.tags.length > 0)
+    filter["#t"] = filters.tags.map((tag) => tag.toLowerCase());
+  if (filters.authors && filters.authors.length > 0)
+    filter.authors = filters.authors;
+
+  return filter;
+}
+
+/**
+ * Get the relays to watch for new snippets on
+ */
+async function getWatchRelays(filters: WatchFilters): Promise<string[]> {
+  if (filters.relays) return filters.relays;
+  if (!filters.authors?.length) return getReadRelays();
+
+  // Follow the authors to the relays they publish to
+  const outboxes = await Promise.all(filters.authors.map(getAuthorRelays));
+  return mergeRelaySets(...outboxes);
+}
+
+/**
+ * Open a long lived subscription for new code snippets that match the filters.
+ * The observable never completes, unsubscribe to close the subscription
+ */
+export function watchSnippets(filters: WatchFilters): Observable<NostrEvent> {
+  return defer(() => from(getWatchRelays(filters))).pipe(
+    switchMap((relays) => {
+      const filter = createWatchFilter(filters);
+      log(
+        `Watching ${relays.length} relays with filter: ${JSON.stringify(filter)}`,
+      );
+
+      return pool.subscription(relays, filter, {
+        // Keep the subscription open when relays close it or drop the connection
+        resubscribe: true,
+        reconnect: Infinity,
+      });
+    }),
+    onlyEvents(),
+    // Deduplicate events and save them to the local cache
+    mapEventsToStore(eventStore),
+  );
+}